@@ -5,19 +5,108 @@ import {
   isGitRepo,
   getGitRoot,
   listWorktrees,
-  remoteBranchExists,
-  isBranchMerged,
   removeWorktree,
   pruneWorktrees,
-  WorktreeInfo
+  WorktreeInfo,
+  WorktreeStatus,
+  MergeMethod
 } from '../utils/git.js';
+import { loadConfig, WtConfig } from '../utils/config.js';
+import { createStatusContext, evaluateWorktrees } from '../utils/status.js';
+import type { WorktreeMetadata } from '../utils/metadata.js';
+import { releasePorts } from '../utils/ports.js';
+import { forgetInstall } from '../utils/deps.js';
+import { forgetMetadata } from '../utils/metadata.js';
+import { getActiveSessions, stopSession, formatSession, AgentSession } from '../utils/sessions.js';
+import { parseDuration } from '../utils/duration.js';
+import {
+  getOutputFormat,
+  toWorktreeRecord,
+  formatJson,
+  formatPorcelain,
+  OutputFormat,
+  OutputOptions
+} from '../utils/output.js';
 import { selectMultiple, confirm } from '../ui/selector.js';
+import { runHooksWithSpinner } from '../ui/hooks.js';
+import { formatAge, isDirty } from '../ui/format.js';
+
+/** Exit codes: something was removed, a removal failed, nothing to remove */
+export const CLEAN_EXIT_REMOVED = 0;
+export const CLEAN_EXIT_FAILED = 1;
+export const CLEAN_EXIT_NOTHING = 2;
 
 interface StaleWorktree extends WorktreeInfo {
-  reason: 'merged' | 'local-only';
+  /** group: part of the `wt spawn` group being cleaned */
+  reason: 'merged' | 'local-only' | 'group';
+  mergeMethod: MergeMethod | null;
+  existsOnRemote: boolean;
+  status: WorktreeStatus | null;
+  metadata: WorktreeMetadata | null;
+  /** Recorded base branch the worktree was checked against, when not the default branch */
+  mergedInto?: string;
+  /** AI tools still running in the worktree */
+  sessions: AgentSession[];
 }
 
-export async function cleanCommand(): Promise<void> {
+interface CleanResult {
+  worktree: StaleWorktree;
+  removed: boolean;
+  error?: string;
+}
+
+export interface CleanCommandOptions extends OutputOptions {
+  dryRun?: boolean;
+  yes?: boolean;
+  force?: boolean;
+  mergedOnly?: boolean;
+  includeLocalOnly?: boolean;
+  olderThan?: string;
+  remote?: string;
+  /** Clean up the worktrees of this `wt spawn` group, merged or not */
+  group?: string;
+}
+
+interface CleanPolicy {
+  includeLocalOnly: boolean;
+  olderThanMs?: number;
+  force: boolean;
+}
+
+/**
+ * Combine command line flags with the repo's clean policy.
+ * Non-interactive runs only remove merged worktrees unless told otherwise.
+ */
+function resolvePolicy(options: CleanCommandOptions, config: WtConfig): CleanPolicy {
+  const policy = config.clean ?? {};
+
+  let includeLocalOnly = policy.includeLocalOnly ?? !options.yes;
+  if (options.mergedOnly) includeLocalOnly = false;
+  if (options.includeLocalOnly) includeLocalOnly = true;
+
+  const olderThan = options.olderThan ?? policy.olderThan;
+
+  return {
+    includeLocalOnly,
+    olderThanMs: olderThan ? parseDuration(olderThan) : undefined,
+    force: options.force ?? policy.force ?? false
+  };
+}
+
+export async function cleanCommand(options: CleanCommandOptions = {}): Promise<void> {
+  // Machine-readable output goes to stdout alone; progress moves to stderr
+  const format = getOutputFormat(options);
+  const log = format === 'text' ? console.log : console.error;
+
+  if (format !== 'text' && !options.dryRun && !options.yes) {
+    console.error(chalk.red('Error: --json and --porcelain require --dry-run or --yes'));
+    process.exit(1);
+  }
+  if (options.mergedOnly && options.includeLocalOnly) {
+    console.error(chalk.red('Error: --merged-only and --include-local-only cannot be used together'));
+    process.exit(1);
+  }
+
   // Validate we're in a git repo
   if (!await isGitRepo()) {
     console.error(chalk.red('Error: Not a git repository'));
@@ -25,114 +114,245 @@ export async function cleanCommand(): Promise<void> {
   }
 
   const mainRepoPath = await getGitRoot();
+  const config = await loadConfig(mainRepoPath);
+  const policy = resolvePolicy(options, config);
+  // Only scripted runs report "nothing to remove"; an interactive run that removes nothing still succeeds
+  const nothingExitCode = options.yes || options.dryRun ? CLEAN_EXIT_NOTHING : CLEAN_EXIT_REMOVED;
+  const context = await createStatusContext(mainRepoPath, config, options.remote);
 
-  // First, prune any stale worktree references
-  const pruneSpinner = ora('Pruning stale references...').start();
-  await pruneWorktrees();
-  pruneSpinner.succeed('Pruned stale references');
+  // First, prune any stale worktree references (a dry run changes nothing)
+  if (!options.dryRun) {
+    const pruneSpinner = ora('Pruning stale references...').start();
+    await pruneWorktrees();
+    pruneSpinner.succeed('Pruned stale references');
+  }
 
-  // Get all worktrees
-  const worktrees = await listWorktrees();
+  // Get all worktrees and the AI tools running in them
+  const [worktrees, activeSessions] = await Promise.all([listWorktrees(), getActiveSessions()]);
 
   // Find stale worktrees
   const spinner = ora('Checking worktree status...').start();
   const staleWorktrees: StaleWorktree[] = [];
+  const skipped: { worktree: StaleWorktree; reason: string }[] = [];
 
-  for (const wt of worktrees) {
-    // Skip main worktree
-    if (wt.path === mainRepoPath) continue;
+  // Skip the main worktree and detached or bare worktrees
+  const candidates = worktrees.filter(wt =>
+    wt.path !== mainRepoPath && !wt.detached && !wt.bare && wt.branch &&
+    (!options.group || context.metadata[wt.path]?.group === options.group)
+  );
 
-    // Skip detached or bare worktrees
-    if (wt.detached || wt.bare || !wt.branch) continue;
+  // Check if each branch was merged, and if it exists on remote
+  const evaluations = await evaluateWorktrees(context, candidates);
 
-    // Check if branch was merged
-    const merged = await isBranchMerged(wt.branch);
-    if (merged) {
-      staleWorktrees.push({ ...wt, reason: 'merged' });
+  for (const evaluation of evaluations) {
+    const { worktree: wt, mergeMethod = null, existsOnRemote = false, status, metadata } = evaluation;
+    let reason: StaleWorktree['reason'];
+    if (mergeMethod) {
+      reason = 'merged';
+    } else if (options.group && !options.mergedOnly) {
+      reason = 'group';
+    } else if (!existsOnRemote && policy.includeLocalOnly) {
+      reason = 'local-only';
+    } else {
       continue;
     }
 
-    // Check if branch exists on remote
-    const existsOnRemote = await remoteBranchExists(wt.branch);
-    if (!existsOnRemote) {
-      staleWorktrees.push({ ...wt, reason: 'local-only' });
+    const mergedInto = evaluation.baseRef !== context.baseRef ? evaluation.baseRef : undefined;
+    const sessions = activeSessions.filter(session => session.worktreePath === wt.path);
+    const stale: StaleWorktree = { ...wt, reason, mergeMethod, existsOnRemote, status, metadata, mergedInto, sessions };
+
+    // Age is measured from the last commit
+    if (policy.olderThanMs !== undefined) {
+      const lastCommit = status?.lastCommit?.timestamp;
+      if (lastCommit !== undefined && Date.now() - lastCommit * 1000 < policy.olderThanMs) continue;
+    }
+
+    // Unattended runs never throw away uncommitted work or stop running tools unless forced
+    if (options.yes && !policy.force && status && isDirty(status)) {
+      skipped.push({ worktree: stale, reason: 'uncommitted changes' });
+      continue;
     }
+    if (options.yes && !policy.force && sessions.length > 0) {
+      skipped.push({ worktree: stale, reason: `${sessions.map(formatSession).join(', ')} still running` });
+      continue;
+    }
+
+    staleWorktrees.push(stale);
   }
 
   spinner.stop();
 
+  for (const { worktree, reason } of skipped) {
+    log(chalk.yellow(`Skipping ${path.basename(worktree.path)} (${worktree.branch}): ${reason} (use --force to remove)`));
+  }
+
+  if (options.dryRun) {
+    printResults(format, staleWorktrees.map(worktree => ({ worktree, removed: false })), true);
+    process.exitCode = staleWorktrees.length > 0 ? CLEAN_EXIT_REMOVED : CLEAN_EXIT_NOTHING;
+    return;
+  }
+
   if (staleWorktrees.length === 0) {
-    console.log(chalk.green('\n✓ No stale worktrees found'));
+    if (format === 'text') {
+      console.log(chalk.green('\n✓ No stale worktrees found'));
+    } else {
+      printResults(format, [], false);
+    }
+    process.exitCode = nothingExitCode;
     return;
   }
 
-  console.log(chalk.yellow(`\nFound ${staleWorktrees.length} potentially stale worktree(s):\n`));
+  let selected = staleWorktrees;
 
-  // Build choices for selection
-  const choices = staleWorktrees.map(wt => {
-    const reasonText = wt.reason === 'merged'
-      ? chalk.green('merged')
-      : chalk.yellow('local only');
+  if (!options.yes) {
+    console.log(chalk.yellow(`\nFound ${staleWorktrees.length} potentially stale worktree(s):\n`));
 
-    return {
-      name: `${path.basename(wt.path)} (${wt.branch}) - ${reasonText}`,
+    // Build choices for selection
+    const choices = staleWorktrees.map(wt => ({
+      name: formatCandidate(wt),
       value: wt,
-      checked: wt.reason === 'merged' // Pre-select merged branches
-    };
-  });
-
-  // Let user select which to remove
-  const selected = await selectMultiple<StaleWorktree>(
-    'Select worktrees to remove:',
-    choices
-  );
+      // Pre-select merged branches and group members unless an AI tool still works in them
+      checked: wt.reason !== 'local-only' && wt.sessions.length === 0
+    }));
 
-  if (selected.length === 0) {
-    console.log(chalk.yellow('\nNo worktrees selected for removal'));
-    return;
-  }
+    // Let user select which to remove
+    selected = await selectMultiple<StaleWorktree>(
+      'Select worktrees to remove:',
+      choices
+    );
 
-  // Confirm removal
-  const confirmed = await confirm(
-    `Remove ${selected.length} worktree(s)?`,
-    true
-  );
+    if (selected.length === 0) {
+      console.log(chalk.yellow('\nNo worktrees selected for removal'));
+      process.exitCode = CLEAN_EXIT_REMOVED;
+      return;
+    }
 
-  if (!confirmed) {
-    console.log(chalk.yellow('Cancelled'));
-    return;
+    // Confirm removal
+    const confirmed = await confirm(
+      `Remove ${selected.length} worktree(s)?`,
+      true
+    );
+
+    if (!confirmed) {
+      console.log(chalk.yellow('Cancelled'));
+      process.exitCode = CLEAN_EXIT_REMOVED;
+      return;
+    }
   }
 
   // Remove selected worktrees
-  console.log('');
-  let removed = 0;
-  let failed = 0;
+  log('');
+  const results: CleanResult[] = [];
 
   for (const wt of selected) {
+    const hookContext = { worktreePath: wt.path, branch: wt.branch, mainRepoPath };
+    if (!await runHooksWithSpinner(config, 'preRemove', hookContext)) {
+      log(chalk.red(`✗ Skipped ${path.basename(wt.path)}: preRemove hook failed`));
+      results.push({ worktree: wt, removed: false, error: 'preRemove hook failed' });
+      continue;
+    }
+
+    for (const session of wt.sessions) {
+      await stopSession(session);
+      log(chalk.yellow(`Stopped ${formatSession(session)} in ${path.basename(wt.path)}`));
+    }
+
     const removeSpinner = ora(`Removing ${path.basename(wt.path)}...`).start();
 
     try {
       await removeWorktree(wt.path, false);
       removeSpinner.succeed(chalk.green(`Removed ${path.basename(wt.path)}`));
-      removed++;
     } catch (error: any) {
-      // Try with force
+      // Interactive runs (where the user picked the worktree) and --force fall back to forced removal
+      if (options.yes && !policy.force) {
+        removeSpinner.fail(chalk.red(`Failed to remove ${path.basename(wt.path)}: ${error.message}`));
+        results.push({ worktree: wt, removed: false, error: error.message });
+        continue;
+      }
+
       try {
         await removeWorktree(wt.path, true);
         removeSpinner.succeed(chalk.green(`Removed ${path.basename(wt.path)} (forced)`));
-        removed++;
       } catch (forceError: any) {
         removeSpinner.fail(chalk.red(`Failed to remove ${path.basename(wt.path)}: ${forceError.message}`));
-        failed++;
+        results.push({ worktree: wt, removed: false, error: forceError.message });
+        continue;
       }
     }
+
+    results.push({ worktree: wt, removed: true });
+    await releasePorts(wt.path);
+    await forgetInstall(wt.path);
+    await forgetMetadata(wt.path);
+    await runHooksWithSpinner(config, 'postRemove', hookContext);
   }
 
-  console.log('');
-  if (removed > 0) {
-    console.log(chalk.green(`✓ Removed ${removed} worktree(s)`));
+  const removed = results.filter(r => r.removed).length;
+  const failed = results.length - removed;
+
+  if (format === 'text') {
+    console.log('');
+    if (removed > 0) {
+      console.log(chalk.green(`✓ Removed ${removed} worktree(s)`));
+    }
+    if (failed > 0) {
+      console.log(chalk.red(`✗ Failed to remove ${failed} worktree(s)`));
+    }
+  } else {
+    printResults(format, results, false);
   }
+
   if (failed > 0) {
-    console.log(chalk.red(`✗ Failed to remove ${failed} worktree(s)`));
+    process.exitCode = CLEAN_EXIT_FAILED;
+  } else {
+    process.exitCode = removed > 0 ? CLEAN_EXIT_REMOVED : nothingExitCode;
+  }
+}
+
+function printResults(format: OutputFormat, results: CleanResult[], dryRun: boolean): void {
+  if (format === 'text') {
+    if (results.length === 0) {
+      console.log(chalk.green('\n✓ No stale worktrees found'));
+      return;
+    }
+    console.log(chalk.yellow(`\nFound ${results.length} potentially stale worktree(s):\n`));
+    for (const { worktree } of results) {
+      console.log(`  ${formatCandidate(worktree)}`);
+    }
+    console.log(chalk.dim('\nDry run: no worktrees were removed'));
+    return;
   }
+
+  const records = results.map(({ worktree, removed, error }) => ({
+    ...toWorktreeRecord(worktree, {
+      isMain: false,
+      mergeMethod: worktree.mergeMethod,
+      existsOnRemote: worktree.existsOnRemote,
+      status: worktree.status,
+      metadata: worktree.metadata
+    }),
+    reason: worktree.reason,
+    sessions: worktree.sessions,
+    removed,
+    error
+  }));
+
+  console.log(format === 'json'
+    ? formatJson('clean', { dryRun, worktrees: records })
+    : formatPorcelain(records));
+}
+
+function formatCandidate(wt: StaleWorktree): string {
+  const age = wt.status?.lastCommit ? chalk.dim(` (${formatAge(wt.status.lastCommit.timestamp)})`) : '';
+  const dirty = wt.status && isDirty(wt.status) ? chalk.red(' uncommitted changes') : '';
+  const running = wt.sessions.length > 0 ? chalk.red(` ${wt.sessions.map(formatSession).join(', ')} running`) : '';
+  const note = wt.metadata?.note ? chalk.italic(` "${wt.metadata.note}"`) : '';
+  return `${path.basename(wt.path)} (${wt.branch}) - ${formatReason(wt)}${age}${dirty}${running}${note}`;
+}
+
+function formatReason(wt: StaleWorktree): string {
+  if (wt.reason === 'local-only') return chalk.yellow('local only');
+  if (wt.reason === 'group') return chalk.cyan(`group ${wt.metadata?.group}`);
+  const into = wt.mergedInto ? ` into ${wt.mergedInto}` : '';
+  return chalk.green(`merged (${wt.mergeMethod})${into}`);
 }
@@ -0,0 +1,112 @@
+import chalk from 'chalk';
+import path from 'path';
+import {
+  isGitRepo,
+  listWorktrees,
+  getWorktreeStatus,
+  getDiffStat,
+  DiffStat,
+  WorktreeInfo,
+  WorktreeStatus
+} from '../utils/git.js';
+import { getAllMetadata, WorktreeMetadata } from '../utils/metadata.js';
+import { mapConcurrent } from '../utils/pool.js';
+import { formatAge, formatChanges, padEnd } from '../ui/format.js';
+import { getOutputFormat, toWorktreeRecord, formatJson, formatPorcelain, OutputOptions } from '../utils/output.js';
+
+interface GroupMember {
+  worktree: WorktreeInfo;
+  metadata: WorktreeMetadata;
+  status: WorktreeStatus | null;
+  /** null when the worktree has no recorded base commit or git failed */
+  diff: DiffStat | null;
+}
+
+const COMPARE_CONCURRENCY = 8;
+
+/**
+ * Find the worktrees of a spawned group, ordered by branch (auth-1, auth-2, ..., auth-10)
+ */
+async function getGroupWorktrees(group: string): Promise<{ worktree: WorktreeInfo; metadata: WorktreeMetadata }[]> {
+  const [worktrees, metadata] = await Promise.all([listWorktrees(), getAllMetadata()]);
+
+  return worktrees
+    .filter(wt => metadata[wt.path]?.group === group)
+    .map(wt => ({ worktree: wt, metadata: metadata[wt.path] }))
+    .sort((a, b) => (a.worktree.branch ?? '').localeCompare(b.worktree.branch ?? '', undefined, { numeric: true }));
+}
+
+export async function compareCommand(group: string, options: OutputOptions = {}): Promise<void> {
+  const format = getOutputFormat(options);
+
+  // Validate we're in a git repo
+  if (!await isGitRepo()) {
+    console.error(chalk.red('Error: Not a git repository'));
+    process.exit(1);
+  }
+
+  const found = await getGroupWorktrees(group);
+  if (found.length === 0) {
+    console.error(chalk.red(`No worktrees found in group: ${group}`));
+    console.error(chalk.dim('\nTip: Groups are created by "wt spawn"'));
+    process.exit(1);
+  }
+
+  // Every attempt is measured from the commit the group started at
+  const members = await mapConcurrent(found, COMPARE_CONCURRENCY, async ({ worktree, metadata }): Promise<GroupMember> => {
+    const base = metadata.baseCommit;
+    const [status, diff] = await Promise.all([
+      getWorktreeStatus(worktree.path, base).catch(() => null),
+      base ? getDiffStat(worktree.path, base).catch(() => null) : null
+    ]);
+    return { worktree, metadata, status, diff };
+  });
+
+  if (format !== 'text') {
+    const records = members.map(({ worktree, metadata, status, diff }) => ({
+      ...toWorktreeRecord(worktree, { isMain: false, status, metadata }),
+      diff
+    }));
+    console.log(format === 'json' ? formatJson('compare', { group, worktrees: records }) : formatPorcelain(records));
+    return;
+  }
+
+  const { baseBranch, baseCommit } = members[0].metadata;
+  const from = [baseBranch, baseCommit?.slice(0, 7)].filter(Boolean).join(' @ ');
+  console.log(chalk.cyan(`\nGroup ${chalk.bold(group)}: ${members.length} worktree(s)${from ? ` from ${from}` : ''}\n`));
+
+  console.log(
+    chalk.bold(padEnd('Branch', 24)) +
+    chalk.bold(padEnd('Commits', 9)) +
+    chalk.bold(padEnd('Files', 7)) +
+    chalk.bold(padEnd('Lines', 16)) +
+    chalk.bold(padEnd('Changes', 10)) +
+    chalk.bold('Last commit')
+  );
+  console.log(chalk.dim('─'.repeat(100)));
+
+  for (const { worktree, status, diff } of members) {
+    const commits = status?.aheadOfBase !== undefined ? String(status.aheadOfBase) : '?';
+    const lines = diff ? chalk.green(`+${diff.insertions}`) + ' ' + chalk.red(`-${diff.deletions}`) : '?';
+    const changes = status ? formatChanges(status) : chalk.red('missing');
+    const lastCommit = status?.lastCommit
+      ? chalk.dim(`${formatAge(status.lastCommit.timestamp)} `) + status.lastCommit.subject
+      : '';
+
+    console.log(
+      padEnd(worktree.branch || path.basename(worktree.path), 24) +
+      padEnd(commits, 9) +
+      padEnd(diff ? String(diff.files) : '?', 7) +
+      padEnd(lines, 16) +
+      padEnd(changes, 10) +
+      lastCommit
+    );
+  }
+
+  console.log(chalk.dim('─'.repeat(100)));
+  console.log(chalk.dim('\nLines include uncommitted changes to tracked files.'));
+  if (members.length > 1) {
+    const [a, b] = members.map(m => m.worktree.branch);
+    console.log(chalk.dim(`Tip: Run 'git diff ${a} ${b}' to compare two attempts directly`));
+  }
+}
@@ -0,0 +1,24 @@
+import chalk from 'chalk';
+import type { Command } from 'commander';
+import { SHELLS, isShell } from '../utils/shell.js';
+import { getCompletionScript, getCompletions } from '../utils/completion.js';
+
+export async function completionCommand(shell: string): Promise<void> {
+  if (!isShell(shell)) {
+    console.error(chalk.red(`Error: Unsupported shell: ${shell}`));
+    console.error(chalk.dim(`Supported shells: ${SHELLS.join(', ')}`));
+    process.exit(1);
+  }
+
+  process.stdout.write(getCompletionScript(shell));
+}
+
+/**
+ * Print candidates for the last word, one per line (called by the completion scripts)
+ */
+export async function completeCommand(program: Command, words: string[]): Promise<void> {
+  const candidates = await getCompletions(program, words);
+  if (candidates.length > 0) {
+    console.log(candidates.join('\n'));
+  }
+}
@@ -0,0 +1,115 @@
+import chalk from 'chalk';
+import {
+  isGitRepo,
+  getGitRoot
+} from '../utils/git.js';
+import {
+  loadConfig,
+  readConfigFile,
+  writeConfigFile,
+  getConfigPath,
+  getGlobalConfigPath,
+  getRepoConfigPath,
+  getConfigKeys,
+  isConfigKey,
+  parseConfigValue,
+  getConfigValue,
+  setConfigValue,
+  formatConfigValue,
+  ConfigScope
+} from '../utils/config.js';
+
+export interface ConfigCommandOptions {
+  global?: boolean;
+}
+
+/**
+ * Resolve the main repo path, or null when outside a git repository
+ */
+async function getRepoPath(): Promise<string | null> {
+  return await isGitRepo() ? await getGitRoot() : null;
+}
+
+function requireKey(key: string): void {
+  if (!isConfigKey(key)) {
+    console.error(chalk.red(`Error: Unknown config key: ${key}`));
+    console.log(chalk.dim(`Valid keys: ${getConfigKeys().join(', ')}`));
+    process.exit(1);
+  }
+}
+
+function requireScope(options: ConfigCommandOptions, mainRepoPath: string | null): ConfigScope {
+  if (options.global) return 'global';
+  if (!mainRepoPath) {
+    console.error(chalk.red('Error: Not a git repository (use --global to edit the global config)'));
+    process.exit(1);
+  }
+  return 'repo';
+}
+
+export async function configGetCommand(key: string, options: ConfigCommandOptions): Promise<void> {
+  requireKey(key);
+
+  const mainRepoPath = await getRepoPath();
+  const config = options.global || !mainRepoPath
+    ? await readConfigFile(getGlobalConfigPath())
+    : await loadConfig(mainRepoPath);
+
+  const value = getConfigValue(config, key);
+  if (value !== undefined) {
+    console.log(formatConfigValue(value));
+  }
+}
+
+export async function configSetCommand(key: string, rawValue: string, options: ConfigCommandOptions): Promise<void> {
+  requireKey(key);
+
+  const mainRepoPath = await getRepoPath();
+  const scope = requireScope(options, mainRepoPath);
+  const filePath = getConfigPath(scope, mainRepoPath ?? '');
+
+  let value: unknown;
+  try {
+    value = parseConfigValue(key, rawValue);
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+
+  const fileConfig = await readConfigFile(filePath);
+  await writeConfigFile(filePath, setConfigValue(fileConfig, key, value));
+
+  console.log(chalk.green(`✓ Set ${key} = ${formatConfigValue(value)}`));
+  console.log(chalk.dim(`  in ${filePath}`));
+}
+
+export async function configListCommand(options: ConfigCommandOptions): Promise<void> {
+  const mainRepoPath = await getRepoPath();
+  const globalPath = getGlobalConfigPath();
+  const globalConfig = await readConfigFile(globalPath);
+
+  if (options.global || !mainRepoPath) {
+    console.log(chalk.cyan(`\nGlobal config: ${chalk.dim(globalPath)}\n`));
+    for (const key of getConfigKeys()) {
+      if (globalConfig[key] === undefined) continue;
+      console.log(`${chalk.bold(key)} = ${formatConfigValue(globalConfig[key])}`);
+    }
+    return;
+  }
+
+  const repoPath = getRepoConfigPath(mainRepoPath);
+  const repoConfig = await readConfigFile(repoPath);
+  const config = await loadConfig(mainRepoPath);
+
+  console.log(chalk.cyan('\nEffective config'));
+  console.log(chalk.dim(`  global: ${globalPath}`));
+  console.log(chalk.dim(`  repo:   ${repoPath}\n`));
+
+  for (const key of getConfigKeys()) {
+    const source = repoConfig[key] !== undefined
+      ? 'repo'
+      : globalConfig[key] !== undefined ? 'global' : 'default';
+    const value = config[key] === undefined ? chalk.dim('(unset)') : formatConfigValue(config[key]);
+    console.log(`${chalk.bold(key)} = ${value} ${chalk.dim(`(${source})`)}`);
+  }
+}
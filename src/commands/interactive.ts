@@ -7,22 +7,104 @@ import {
   listWorktrees,
   removeWorktree,
   createWorktree,
+  branchExists,
+  refExists,
+  findRemoteBranch,
+  fetchDefaultBranch,
   pushBranch,
   validateBranchName,
   getWorktreePath,
+  getDefaultBranch,
+  getGitCommonDir,
+  getStatusLines,
+  getRecentCommits,
+  readDiff,
   WorktreeInfo
 } from '../utils/git.js';
-import { copyEnvFiles } from '../utils/env.js';
-import { launchAITool, isToolAvailable } from '../utils/launcher.js';
-import type { AITool } from '../utils/launcher.js';
+import { formatAge, formatChanges, formatUpstreamSync, formatLaunch, isDirty, truncate } from '../ui/format.js';
+import { copyEnvFiles, formatCopySummary } from '../utils/env.js';
+import { allocatePorts, releasePorts } from '../utils/ports.js';
+import { forgetInstall } from '../utils/deps.js';
+import { recordCreated, recordLaunch, setNote, forgetMetadata, WorktreeMetadata } from '../utils/metadata.js';
+import { loadConfig, getRemotes, Remotes, WtConfig } from '../utils/config.js';
+import { launchAITool, launchAIToolInWindow, isToolAvailable } from '../utils/launcher.js';
+import {
+  resolveMultiplexer,
+  getWindowName,
+  formatWindow,
+  hasWindow,
+  focusWindow,
+  getAttachArgs,
+  Multiplexer
+} from '../utils/multiplexer.js';
+import { getTools, acceptsPrompt, ToolDefinition } from '../utils/tools.js';
+import { requestCd } from '../utils/shell.js';
+import { recordSession, getActiveSessions, stopSession, formatSession, AgentSession } from '../utils/sessions.js';
+import { createStatusContext, evaluateWorktrees, WorktreeEvaluation } from '../utils/status.js';
+import { runHooks, getHookLabel, HookContext, HookEvent } from '../utils/hooks.js';
+import { watchRepository } from '../utils/watcher.js';
+
+// Keys used by built-in actions and the list's vi navigation (g/G, l, H/M/L); tools can't be bound to these
+const RESERVED_KEYS = ['q', 'n', 'd', 'e', 'p', 'r', 'j', 'k', 'g', 'G', 'l', 'H', 'M', 'L', 's', 'h', '/', 'enter', 'tab'];
+
+type SortMode = 'name' | 'commit' | 'created' | 'dirty';
+
+/** Sort modes in the order the sort key cycles through them */
+const SORT_MODES: { mode: SortMode; label: string }[] = [
+  { mode: 'name', label: 'name' },
+  { mode: 'commit', label: 'last commit' },
+  { mode: 'created', label: 'created' },
+  { mode: 'dirty', label: 'dirty first' }
+];
+
+/** Delay before the preview follows the selection, so scrolling through the list stays smooth */
+const PREVIEW_DELAY_MS = 150;
+/** Diff lines shown in the preview; the rest is left to git diff */
+const PREVIEW_DIFF_LINES = 2000;
+const PREVIEW_COMMITS = 5;
+const PREVIEW_STATUS_LINES = 10;
+/** Quiet period after a change on disk before the list refreshes, so a burst of writes refreshes once */
+const AUTO_REFRESH_DELAY_MS = 500;
 
 let screen: blessed.Widgets.Screen;
+let header: blessed.Widgets.BoxElement;
 let worktreeList: blessed.Widgets.ListElement;
 let statusBar: blessed.Widgets.BoxElement;
+let preview: blessed.Widgets.BoxElement;
 let mainRepoPath: string;
+let commonDir: string;
+let config: WtConfig;
+let toolBindings: ToolDefinition[] = [];
+/** Where tools are launched; null to hand them the terminal */
+let multiplexer: Multiplexer | null = null;
 let currentBranch: string;
+let remotes: Remotes;
+let baseBranch: string;
 let worktrees: WorktreeInfo[] = [];
+/** The worktrees shown in the list, filtered and sorted; selectedIndex indexes this */
+let visibleWorktrees: WorktreeInfo[] = [];
+let evaluations = new Map<string, WorktreeEvaluation>();
+/** Recorded metadata, keyed by worktree path (known before the evaluations finish) */
+let worktreeMetadata: Record<string, WorktreeMetadata> = {};
+let filterText = '';
+let sortMode: SortMode = 'name';
+let hideMerged = false;
+/** AI tools running in each worktree, keyed by worktree path */
+let sessions = new Map<string, AgentSession[]>();
 let selectedIndex = 0;
+/** Incremented per refresh so results of an older refresh are dropped */
+let refreshGeneration = 0;
+/** Incremented per preview update so a slow one can't overwrite a newer one */
+let previewGeneration = 0;
+let previewTimer: NodeJS.Timeout | undefined;
+/** Worktree the preview shows, to keep its scroll position across updates */
+let previewPath: string | undefined;
+let stopWatching: (() => void) | undefined;
+/** Worktree paths the watches cover, so they are only rebuilt when worktrees come or go */
+let watchedKey: string | undefined;
+let autoRefreshTimer: NodeJS.Timeout | undefined;
+/** Set while another program has the terminal, or once the TUI is closed */
+let suspended = false;
 
 export async function interactiveCommand(): Promise<void> {
   if (!await isGitRepo()) {
@@ -31,7 +113,30 @@ export async function interactiveCommand(): Promise<void> {
   }
 
   mainRepoPath = await getGitRoot();
+  commonDir = await getGitCommonDir();
+  config = await loadConfig(mainRepoPath);
+  // First tool wins when several share a key
+  const keyConflicts: string[] = [];
+  for (const tool of getTools(config)) {
+    if (!tool.key) continue;
+    const owner = toolBindings.find(t => t.key === tool.key);
+    if (RESERVED_KEYS.includes(tool.key)) {
+      keyConflicts.push(`${tool.name}: [${tool.key}] is a built-in key`);
+    } else if (owner) {
+      keyConflicts.push(`${tool.name}: [${tool.key}] is taken by ${owner.name}`);
+    } else {
+      toolBindings.push(tool);
+    }
+  }
+  try {
+    multiplexer = resolveMultiplexer(config.multiplexer);
+  } catch (e: any) {
+    console.error(`Error: ${e.message}`);
+    process.exit(1);
+  }
   currentBranch = await getCurrentBranch();
+  remotes = getRemotes(config);
+  baseBranch = config.defaultBranch || await getDefaultBranch(remotes.base);
   const repoName = path.basename(mainRepoPath);
 
   screen = blessed.screen({
@@ -43,7 +148,7 @@ export async function interactiveCommand(): Promise<void> {
   });
 
   // Header
-  blessed.box({
+  header = blessed.box({
     parent: screen,
     top: 0,
     left: 0,
@@ -59,7 +164,7 @@ export async function interactiveCommand(): Promise<void> {
     top: 1,
     left: 0,
     width: '100%',
-    height: '100%-3',
+    height: '50%-1',
     keys: true,
     vi: true,
     mouse: true,
@@ -70,6 +175,23 @@ export async function interactiveCommand(): Promise<void> {
     scrollbar: { ch: ' ', style: { bg: 'cyan' } }
   });
 
+  // Preview of the selected worktree
+  preview = blessed.box({
+    parent: screen,
+    top: '50%',
+    left: 0,
+    width: '100%',
+    height: '50%-2',
+    border: { type: 'line' },
+    style: { border: { fg: 'cyan' }, focus: { border: { fg: 'green' } } },
+    tags: true,
+    scrollable: true,
+    alwaysScroll: true,
+    keys: true,
+    mouse: true,
+    scrollbar: { ch: ' ', style: { bg: 'cyan' } }
+  });
+
   // Status bar
   statusBar = blessed.box({
     parent: screen,
@@ -88,13 +210,21 @@ export async function interactiveCommand(): Promise<void> {
     left: 0,
     width: '100%',
     height: 1,
-    content: ' [n]ew  [d]elete  [c]laude  [x]codex  [p]ush  [Enter]cd  [q]uit',
+    content: ` [n]ew  [d]elete  [e]dit note  ${toolBindings.map(formatToolKey).join('  ')}  [p]ush  [/]filter  [s]ort  [h]ide merged  [Tab]preview  [Enter]cd  [q]uit`,
     style: { fg: 'black', bg: 'cyan' }
   });
 
   await refreshWorktrees();
+  if (keyConflicts.length > 0) {
+    setStatus(`Not bound - ${keyConflicts.join('; ')}`);
+  }
 
   // Key bindings
+  // Track the highlighted row as it moves; screen keys like Enter fire before the list's own 'select'
+  worktreeList.on('select item', (_item: blessed.Widgets.BlessedElement, index: number) => {
+    selectedIndex = index;
+    schedulePreview();
+  });
   worktreeList.on('select', (_item: blessed.Widgets.BlessedElement, index: number) => {
     selectedIndex = index;
     showPath();
@@ -103,13 +233,47 @@ export async function interactiveCommand(): Promise<void> {
   screen.key(['q', 'C-c'], () => exitScreen());
   screen.key(['n'], () => showNewWorktreeForm());
   screen.key(['d'], () => deleteSelected());
-  screen.key(['c'], () => launchTool('claude'));
-  screen.key(['x'], () => launchTool('codex'));
+  screen.key(['e'], () => showNoteForm());
+  for (const tool of toolBindings) {
+    screen.key([tool.key!], () => launchTool(tool));
+  }
   screen.key(['p'], () => pushSelected());
   screen.key(['r'], () => refreshWorktrees());
-  screen.key(['enter'], () => {
-    const wt = worktrees[selectedIndex];
-    if (wt) exitScreen(`\ncd "${wt.path}"\n`);
+  screen.key(['/'], () => showFilterInput());
+  screen.key(['s'], () => {
+    const next = (SORT_MODES.findIndex(m => m.mode === sortMode) + 1) % SORT_MODES.length;
+    sortMode = SORT_MODES[next].mode;
+    renderList();
+    setStatus(`Sorted by ${SORT_MODES[next].label}`);
+  });
+  screen.key(['h'], () => {
+    hideMerged = !hideMerged;
+    renderList();
+    setStatus(hideMerged ? 'Hiding merged worktrees' : 'Showing merged worktrees');
+  });
+  // Tab moves between the list and the preview, where arrows, j/k and page keys scroll
+  screen.key(['tab'], () => {
+    if (screen.focused === preview) {
+      worktreeList.focus();
+    } else {
+      preview.focus();
+    }
+    screen.render();
+  });
+  preview.key(['j'], () => scrollPreview(1));
+  preview.key(['k'], () => scrollPreview(-1));
+  preview.key(['pagedown', 'space'], () => scrollPreview(Number(preview.height) - 2));
+  preview.key(['pageup'], () => scrollPreview(-(Number(preview.height) - 2)));
+  preview.key(['escape'], () => {
+    worktreeList.focus();
+    screen.render();
+  });
+  screen.key(['enter'], async () => {
+    const wt = getSelected();
+    if (!wt) return;
+    // With the shell integration the parent shell changes directory itself
+    if (await requestCd(wt.path)) exitScreen();
+    exitScreen(`\ncd "${wt.path}"\n`);
   });
 
   worktreeList.focus();
@@ -118,26 +282,273 @@ export async function interactiveCommand(): Promise<void> {
 
 // ============ Helpers ============
 
-async function refreshWorktrees(): Promise<void> {
-  setStatus('Loading...');
-  worktrees = await listWorktrees();
+/**
+ * Reload the worktree list. Rows are shown right away and each worktree's
+ * status fills in as it is computed, so the screen never waits on git.
+ * An automatic refresh leaves the status bar alone unless the selection moved.
+ */
+async function refreshWorktrees(auto = false): Promise<void> {
+  const generation = ++refreshGeneration;
+  const previousPath = getSelected()?.path;
+  let activeSessions: AgentSession[];
+  [worktrees, activeSessions, currentBranch] = await Promise.all([listWorktrees(), getActiveSessions(), getCurrentBranch()]);
+  sessions = new Map(worktrees.map(wt => [wt.path, activeSessions.filter(s => s.worktreePath === wt.path)]));
+  watchChanges();
 
-  const items = worktrees.map(wt => {
-    const isMain = wt.path === mainRepoPath;
-    const dirName = path.basename(wt.path);
-    const branch = wt.branch || '(detached)';
-    const tag = isMain ? '[main]' : '';
-    return ` ${dirName.padEnd(40)} ${branch.padEnd(25)} ${tag}`;
-  });
+  // Keep the last known status of each worktree until its new one arrives
+  evaluations = new Map([...evaluations].filter(([wtPath]) => worktrees.some(wt => wt.path === wtPath)));
 
-  worktreeList.setItems(items);
+  renderList();
+  if (!auto || getSelected()?.path !== previousPath) showPath();
+
+  try {
+    const context = await createStatusContext(mainRepoPath, config);
+    worktreeMetadata = context.metadata;
+    renderList();
+
+    evaluateWorktrees(context, worktrees, {
+      onResult: (evaluation) => {
+        if (generation !== refreshGeneration) return;
+        evaluations.set(evaluation.worktree.path, evaluation);
+        // Sorting and hiding merged worktrees depend on the status, so the whole list is redrawn
+        renderList();
+        // The diff needs the base branch the evaluation found
+        if (evaluation.worktree === getSelected()) schedulePreview();
+      }
+    }).catch((e: any) => setStatus(`Error: ${e.message}`));
+  } catch (e: any) {
+    setStatus(`Error: ${e.message}`);
+  }
+}
+
+/**
+ * Watch the current set of worktrees, replacing the watches of a previous set
+ */
+function watchChanges(): void {
+  const key = worktrees.map(wt => wt.path).sort().join('\n');
+  if (key === watchedKey) return;
+  watchedKey = key;
+
+  watchRepository(commonDir, worktrees.map(wt => wt.path), scheduleRefresh)
+    .then(stop => {
+      // Worktrees changed again, or the TUI closed, while the watches were set up
+      if (key !== watchedKey || suspended) {
+        stop();
+        if (key === watchedKey) watchedKey = undefined;
+        return;
+      }
+      stopWatching?.();
+      stopWatching = stop;
+    })
+    .catch(() => {
+      // Try again on the next refresh
+      if (key === watchedKey) watchedKey = undefined;
+    });
+}
+
+/**
+ * Refresh once changes on disk settle. Selection, filter and sort are kept by renderList.
+ */
+function scheduleRefresh(): void {
+  clearTimeout(autoRefreshTimer);
+  autoRefreshTimer = setTimeout(() => {
+    if (suspended) return;
+    refreshWorktrees(true).catch((e: any) => setStatus(`Error: ${e.message}`));
+  }, AUTO_REFRESH_DELAY_MS);
+}
+
+/**
+ * Get the highlighted worktree
+ */
+function getSelected(): WorktreeInfo | undefined {
+  return visibleWorktrees[selectedIndex];
+}
+
+/**
+ * Apply the filter, hide-merged toggle and sort mode, keeping the same worktree
+ * selected when it is still shown
+ */
+function renderList(): void {
+  const selectedPath = getSelected()?.path;
+
+  const main = worktrees.filter(wt => wt.path === mainRepoPath && matchesView(wt));
+  const others = worktrees.filter(wt => wt.path !== mainRepoPath && matchesView(wt)).sort(compareWorktrees);
+  // The main worktree stays on top
+  visibleWorktrees = [...main, ...others];
+
+  const index = visibleWorktrees.findIndex(wt => wt.path === selectedPath);
+  selectedIndex = index >= 0 ? index : Math.max(0, Math.min(selectedIndex, visibleWorktrees.length - 1));
+
+  worktreeList.setItems(visibleWorktrees.map(formatRow));
   worktreeList.select(selectedIndex);
-  showPath();
+  renderHeader();
+  screen.render();
+}
+
+function matchesView(wt: WorktreeInfo): boolean {
+  if (hideMerged && evaluations.get(wt.path)?.mergeMethod) return false;
+  if (!filterText) return true;
+
+  const query = filterText.toLowerCase();
+  const fields = [path.basename(wt.path), wt.branch ?? '', worktreeMetadata[wt.path]?.note ?? ''];
+  return fields.some(field => field.toLowerCase().includes(query));
+}
+
+function compareWorktrees(a: WorktreeInfo, b: WorktreeInfo): number {
+  const byName = path.basename(a.path).localeCompare(path.basename(b.path), undefined, { numeric: true });
+
+  switch (sortMode) {
+    case 'commit': {
+      // Newest first; worktrees without a known commit go last
+      const time = (wt: WorktreeInfo) => evaluations.get(wt.path)?.status?.lastCommit?.timestamp ?? 0;
+      return time(b) - time(a) || byName;
+    }
+    case 'created': {
+      const created = (wt: WorktreeInfo) => worktreeMetadata[wt.path]?.createdAt ?? '';
+      return created(b).localeCompare(created(a)) || byName;
+    }
+    case 'dirty': {
+      const dirty = (wt: WorktreeInfo) => {
+        const status = evaluations.get(wt.path)?.status;
+        return status && isDirty(status) ? 1 : 0;
+      };
+      return dirty(b) - dirty(a) || byName;
+    }
+    default:
+      return byName;
+  }
+}
+
+function renderHeader(): void {
+  const view = [
+    filterText ? `filter: ${filterText}` : '',
+    `sort: ${SORT_MODES.find(m => m.mode === sortMode)!.label}`,
+    hideMerged ? 'merged hidden' : '',
+    visibleWorktrees.length < worktrees.length ? `${visibleWorktrees.length} of ${worktrees.length} shown` : ''
+  ].filter(Boolean).join('  ');
+  header.setContent(` ${path.basename(mainRepoPath)} (${currentBranch})  ${view}`);
+}
+
+function formatRow(wt: WorktreeInfo): string {
+  const dirName = path.basename(wt.path);
+  const branch = wt.branch || '(detached)';
+  const evaluation = evaluations.get(wt.path);
+  const status = evaluation?.status;
+  const changes = status ? formatChanges(status) : evaluation ? '' : '…';
+  const sync = status ? formatUpstreamSync(status) : '';
+  const state = evaluation ? formatState(evaluation) : '';
+  const age = status?.lastCommit ? formatAge(status.lastCommit.timestamp) : '';
+  const subject = status?.lastCommit?.subject ?? '';
+  const tag = wt.path === mainRepoPath ? '[main]' : '';
+  // A worktree's note says more about it than its last commit
+  const note = worktreeMetadata[wt.path]?.note;
+  const live = sessions.get(wt.path)?.length ? '●' : ' ';
+  return `${live}${truncate(dirName, 30).padEnd(30)} ${truncate(branch, 24).padEnd(24)} ${changes.padEnd(8)} ${sync.padEnd(9)} ${state.padEnd(6)} ${age.padEnd(9)} ${tag || note || subject}`;
+}
+
+function formatState(evaluation: WorktreeEvaluation): string {
+  if (evaluation.mergeMethod) return 'merged';
+  if (evaluation.existsOnRemote === false) return 'local';
+  return '';
+}
+
+function formatToolKey(tool: ToolDefinition): string {
+  const key = tool.key!;
+  return tool.id.startsWith(key) ? `[${key}]${tool.id.slice(key.length)}` : `[${key}]${tool.id}`;
 }
 
 function showPath(): void {
-  const wt = worktrees[selectedIndex];
-  setStatus(wt ? wt.path : '');
+  const wt = getSelected();
+  const metadata = wt && evaluations.get(wt.path)?.metadata;
+  const running = wt ? (sessions.get(wt.path) ?? []).map(s => `${formatSession(s)} running`) : [];
+  const details = metadata ? [...running, formatLaunch(metadata), metadata.note ?? ''].filter(Boolean) : running;
+  setStatus(wt ? [wt.path, ...details].join(' · ') : '');
+}
+
+// ============ Preview ============
+
+function schedulePreview(): void {
+  clearTimeout(previewTimer);
+  previewTimer = setTimeout(() => {
+    updatePreview().catch((e: any) => setStatus(`Error: ${e.message}`));
+  }, PREVIEW_DELAY_MS);
+}
+
+/**
+ * Show the status, recent commits and diff against the base branch of the selected worktree
+ */
+async function updatePreview(): Promise<void> {
+  const generation = ++previewGeneration;
+  const wt = getSelected();
+  if (!wt || wt.bare) {
+    preview.setLabel('');
+    preview.setContent('');
+    screen.render();
+    return;
+  }
+
+  // The main worktree has no base to compare against, so it shows its uncommitted changes
+  const isMain = wt.path === mainRepoPath;
+  const base = isMain ? 'HEAD' : evaluations.get(wt.path)?.baseRef ?? baseBranch;
+
+  let lines: string[];
+  try {
+    const [statusLines, commits, diff] = await Promise.all([
+      getStatusLines(wt.path),
+      getRecentCommits(wt.path, PREVIEW_COMMITS),
+      readDiff(wt.path, base, PREVIEW_DIFF_LINES)
+    ]);
+
+    lines = ['{bold}Status{/bold}'];
+    lines.push(...statusLines.slice(0, PREVIEW_STATUS_LINES).map(escapeTags));
+    if (statusLines.length > PREVIEW_STATUS_LINES) {
+      lines.push(`{gray-fg}… ${statusLines.length - PREVIEW_STATUS_LINES} more{/gray-fg}`);
+    }
+    if (statusLines.length === 0) lines.push('clean');
+
+    lines.push('', '{bold}Recent commits{/bold}');
+    lines.push(...commits.map(c => `{yellow-fg}${c.hash}{/yellow-fg} {gray-fg}${formatAge(c.timestamp)}{/gray-fg} ${escapeTags(c.subject)}`));
+
+    lines.push('', `{bold}${isMain ? 'Uncommitted changes' : `Diff against ${escapeTags(base)}`}{/bold}`);
+    lines.push(...diff.lines.map(formatDiffLine));
+    if (diff.lines.length === 0) lines.push('No changes');
+    if (diff.truncated) {
+      lines.push(`{yellow-fg}… only the first ${PREVIEW_DIFF_LINES} lines are shown{/yellow-fg}`);
+    }
+  } catch (e: any) {
+    lines = [`{red-fg}${escapeTags(e.message)}{/red-fg}`];
+  }
+
+  if (generation !== previewGeneration) return;
+
+  // Stay at the same place when the same worktree is redrawn
+  const scroll = wt.path === previewPath ? preview.getScroll() : 0;
+  previewPath = wt.path;
+  preview.setLabel(` ${escapeTags(path.basename(wt.path))} `);
+  preview.setContent(lines.join('\n'));
+  preview.scrollTo(scroll);
+  screen.render();
+}
+
+function scrollPreview(offset: number): void {
+  preview.scroll(offset);
+  screen.render();
+}
+
+function formatDiffLine(line: string): string {
+  const text = escapeTags(line);
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) return `{bold}${text}{/bold}`;
+  if (line.startsWith('+')) return `{green-fg}${text}{/green-fg}`;
+  if (line.startsWith('-')) return `{red-fg}${text}{/red-fg}`;
+  if (line.startsWith('@@')) return `{cyan-fg}${text}{/cyan-fg}`;
+  return text;
+}
+
+/**
+ * Keep braces in git output from being read as blessed tags
+ */
+function escapeTags(text: string): string {
+  return text.replace(/[{}]/g, ch => (ch === '{' ? '{open}' : '{close}'));
 }
 
 function setStatus(msg: string): void {
@@ -145,7 +556,27 @@ function setStatus(msg: string): void {
   screen.render();
 }
 
+/**
+ * Run hooks for an event, streaming output to the status bar.
+ * Returns false (with the error shown) if a failing hook aborted.
+ */
+async function runTuiHooks(event: HookEvent, context: HookContext): Promise<boolean> {
+  try {
+    await runHooks(config, event, context, {
+      onStart: (hook) => setStatus(`${event}: ${getHookLabel(hook)}...`),
+      onOutput: (hook, line) => setStatus(`${event}: ${getHookLabel(hook)} | ${line}`)
+    });
+    return true;
+  } catch (e: any) {
+    setStatus(`Error: ${e.message}`);
+    return false;
+  }
+}
+
 function cleanupScreen(): void {
+  suspended = true;
+  stopWatching?.();
+  clearTimeout(autoRefreshTimer);
   screen.program.clear();
   screen.program.disableMouse();
   screen.program.showCursor();
@@ -161,13 +592,32 @@ function exitScreen(message?: string): void {
 
 // ============ New Worktree ============
 
+interface StartChoice {
+  label: string;
+  fresh?: boolean;
+  /** Ask for a ref after the branch name */
+  custom?: boolean;
+}
+
+interface StartOptions {
+  from?: string;
+  fresh?: boolean;
+}
+
 function showNewWorktreeForm(): void {
+  const choices: StartChoice[] = [
+    { label: `current branch (${currentBranch})` },
+    { label: `latest ${baseBranch} (fetched)`, fresh: true },
+    { label: 'other ref...', custom: true }
+  ];
+  let choiceIndex = config.fresh ? 1 : 0;
+
   const form = blessed.box({
     parent: screen,
     top: 'center',
     left: 'center',
     width: 60,
-    height: 10,
+    height: 14,
     border: { type: 'line' },
     style: { fg: 'default', border: { fg: 'cyan' } },
     label: ' New Worktree '
@@ -177,7 +627,7 @@ function showNewWorktreeForm(): void {
     parent: form,
     top: 1,
     left: 2,
-    content: `Repository: ${path.basename(mainRepoPath)} (from ${currentBranch})`,
+    content: `Repository: ${path.basename(mainRepoPath)}`,
     style: { fg: 'cyan' }
   });
 
@@ -203,52 +653,189 @@ function showNewWorktreeForm(): void {
     parent: form,
     top: 6,
     left: 2,
-    content: '[Enter] create  [Esc] cancel',
+    content: 'Task for the AI assistant (optional):',
+    style: { fg: 'default' }
+  });
+
+  const taskInput = blessed.textbox({
+    parent: form,
+    top: 7,
+    left: 2,
+    width: 54,
+    height: 1,
+    style: { fg: 'black', bg: 'white' },
+    inputOnFocus: true
+  });
+
+  const fromText = blessed.text({
+    parent: form,
+    top: 9,
+    left: 2,
+    content: '',
+    style: { fg: 'default' }
+  });
+  const renderChoice = () => fromText.setContent(`From: < ${choices[choiceIndex].label} >`);
+  renderChoice();
+
+  blessed.text({
+    parent: form,
+    top: 11,
+    left: 2,
+    content: '[Enter] next/create  [←/→] from  [Esc] cancel',
     style: { fg: 'cyan' }
   });
 
   input.focus();
   screen.render();
 
-  input.on('submit', async () => {
-    const value = input.getValue()?.trim();
-    if (!value) {
-      form.destroy();
-      screen.render();
-      worktreeList.focus();
+  const closeForm = () => {
+    form.destroy();
+    screen.render();
+    worktreeList.focus();
+  };
+
+  // Arrow keys aren't typed into the textboxes, so they can switch the start point
+  const switchChoice = (_ch: string, key: { name?: string }) => {
+    if (key.name !== 'left' && key.name !== 'right') return;
+    choiceIndex = (choiceIndex + (key.name === 'right' ? 1 : choices.length - 1)) % choices.length;
+    renderChoice();
+    screen.render();
+  };
+  input.on('keypress', switchChoice);
+  taskInput.on('keypress', switchChoice);
+
+  let branchName = '';
+
+  // Enter on the branch name moves on to the task
+  input.on('submit', () => {
+    branchName = input.getValue()?.trim() ?? '';
+    if (!branchName) {
+      closeForm();
       return;
     }
 
     try {
-      validateBranchName(value);
-      form.destroy();
+      validateBranchName(branchName);
+      taskInput.focus();
       screen.render();
-      await createNewWorktree(value);
     } catch (e: any) {
+      form.destroy();
       setStatus(`Error: ${e.message}`);
       worktreeList.focus();
       screen.render();
     }
   });
 
-  input.on('cancel', () => {
+  taskInput.on('submit', async () => {
+    const prompt = taskInput.getValue()?.trim() || undefined;
     form.destroy();
     screen.render();
+
+    const choice = choices[choiceIndex];
+    if (choice.custom) {
+      showRefPrompt(branchName, prompt);
+    } else {
+      await createNewWorktree(branchName, { fresh: choice.fresh }, prompt);
+    }
+  });
+
+  input.on('cancel', closeForm);
+  taskInput.on('cancel', closeForm);
+
+  input.readInput();
+}
+
+function showRefPrompt(branchName: string, taskPrompt?: string): void {
+  const prompt = blessed.box({
+    parent: screen,
+    top: 'center',
+    left: 'center',
+    width: 60,
+    height: 7,
+    border: { type: 'line' },
+    style: { fg: 'default', border: { fg: 'cyan' } },
+    label: ` Fork ${branchName} from `
+  });
+
+  const input = blessed.textbox({
+    parent: prompt,
+    top: 1,
+    left: 2,
+    width: 54,
+    height: 1,
+    style: { fg: 'black', bg: 'white' },
+    inputOnFocus: true
+  });
+
+  blessed.text({
+    parent: prompt,
+    top: 3,
+    left: 2,
+    content: 'Branch, tag or commit  [Enter] create  [Esc] cancel',
+    style: { fg: 'cyan' }
+  });
+
+  input.focus();
+  screen.render();
+
+  input.on('submit', async () => {
+    const ref = input.getValue()?.trim();
+    prompt.destroy();
+    screen.render();
+    if (ref) {
+      await createNewWorktree(branchName, { from: ref }, taskPrompt);
+    } else {
+      worktreeList.focus();
+    }
+  });
+
+  input.on('cancel', () => {
+    prompt.destroy();
+    screen.render();
     worktreeList.focus();
   });
 
   input.readInput();
 }
 
-async function createNewWorktree(branchName: string): Promise<void> {
+async function createNewWorktree(branchName: string, start: StartOptions = {}, prompt?: string): Promise<void> {
   setStatus(`Creating ${branchName}...`);
 
   try {
-    const worktreePath = getWorktreePath(mainRepoPath, branchName);
-    await createWorktree(worktreePath, branchName);
-    await copyEnvFiles(mainRepoPath, worktreePath);
+    let startPoint = start.from;
+    if (startPoint && !await refExists(startPoint)) {
+      throw new Error(`Unknown ref: ${startPoint}`);
+    }
+    if (start.fresh && !await branchExists(branchName) && !await findRemoteBranch(branchName, remotes.push)) {
+      setStatus(`Fetching latest ${baseBranch}...`);
+      startPoint = (await fetchDefaultBranch(baseBranch, remotes.base)).ref;
+    }
+
+    const worktreePath = getWorktreePath(mainRepoPath, branchName, config.worktreePath);
+    const branch = await createWorktree(worktreePath, branchName, startPoint, remotes.push);
+    await recordCreated(worktreePath, branchName, branch, { prompt });
+    const copyResult = await copyEnvFiles(mainRepoPath, worktreePath, {
+      include: config.copyFiles,
+      exclude: config.copyExclude
+    });
+    if (config.ports?.keys?.length && copyResult.copied.length > 0) {
+      await allocatePorts(worktreePath, copyResult.copied, config.ports);
+    }
     await refreshWorktrees();
-    setStatus(`Created ${branchName} - press [c] for Claude or [x] for Codex`);
+
+    if (!await runTuiHooks('postCreate', { worktreePath, branch: branchName, mainRepoPath })) {
+      worktreeList.focus();
+      return;
+    }
+
+    const details = [
+      branch.upstream ? `tracking ${branch.upstream}` : branch.startPoint ? `from ${branch.startPoint}` : '',
+      formatCopySummary(copyResult)
+    ].filter(Boolean).join(', ');
+    const created = details ? `Created ${branchName} (${details})` : `Created ${branchName}`;
+    const hints = toolBindings.slice(0, 2).map(t => `[${t.key}] for ${t.name}`).join(' or ');
+    const task = prompt ? ' to start the task' : '';
+    setStatus(hints ? `${created} - press ${hints}${task}` : created);
     worktreeList.focus();
   } catch (e: any) {
     setStatus(`Error: ${e.message}`);
@@ -256,26 +843,194 @@ async function createNewWorktree(branchName: string): Promise<void> {
   }
 }
 
+// ============ Notes ============
+
+function showNoteForm(): void {
+  const wt = getSelected();
+  if (!wt) return;
+
+  const form = blessed.box({
+    parent: screen,
+    top: 'center',
+    left: 'center',
+    width: 60,
+    height: 7,
+    border: { type: 'line' },
+    style: { fg: 'default', border: { fg: 'cyan' } },
+    label: ` Note for ${truncate(path.basename(wt.path), 40)} `
+  });
+
+  const input = blessed.textbox({
+    parent: form,
+    top: 1,
+    left: 2,
+    width: 54,
+    height: 1,
+    style: { fg: 'black', bg: 'white' },
+    inputOnFocus: true,
+    value: evaluations.get(wt.path)?.metadata?.note ?? ''
+  });
+
+  blessed.text({
+    parent: form,
+    top: 3,
+    left: 2,
+    content: 'Empty to clear  [Enter] save  [Esc] cancel',
+    style: { fg: 'cyan' }
+  });
+
+  input.focus();
+  screen.render();
+
+  input.on('submit', async () => {
+    const note = input.getValue() ?? '';
+    form.destroy();
+    worktreeList.focus();
+
+    try {
+      await setNote(wt.path, note);
+      await refreshWorktrees();
+    } catch (e: any) {
+      setStatus(`Error: ${e.message}`);
+    }
+  });
+
+  input.on('cancel', () => {
+    form.destroy();
+    screen.render();
+    worktreeList.focus();
+  });
+
+  input.readInput();
+}
+
+/**
+ * Filter the list as the user types, over the status bar.
+ * Enter keeps the filter; Esc clears it.
+ */
+function showFilterInput(): void {
+  const input = blessed.textbox({
+    parent: screen,
+    bottom: 1,
+    left: 0,
+    width: '100%',
+    height: 1,
+    style: { fg: 'black', bg: 'white' },
+    inputOnFocus: true,
+    value: filterText
+  });
+
+  let closed = false;
+  const close = () => {
+    closed = true;
+    input.destroy();
+    worktreeList.focus();
+    renderList();
+    schedulePreview();
+  };
+
+  // The value only changes after the keypress has been handled
+  input.on('keypress', () => {
+    setImmediate(() => {
+      if (closed) return;
+      filterText = input.getValue() ?? '';
+      renderList();
+    });
+  });
+  input.on('submit', () => {
+    filterText = input.getValue() ?? '';
+    close();
+  });
+  input.on('cancel', () => {
+    filterText = '';
+    close();
+  });
+
+  input.focus();
+  screen.render();
+}
+
 // ============ Actions ============
 
-async function launchTool(tool: AITool): Promise<void> {
-  const wt = worktrees[selectedIndex];
+async function launchTool(tool: ToolDefinition): Promise<void> {
+  const wt = getSelected();
   if (!wt) return;
 
+  // A worktree gets one window; launching again switches to it
+  const windowName = getWindowName(wt.path);
+  if (multiplexer && await hasWindow(multiplexer, windowName)) {
+    await jumpToWindow(multiplexer, windowName);
+    return;
+  }
+
   const available = await isToolAvailable(tool);
   if (!available) {
-    setStatus(`${tool} is not installed`);
+    setStatus(`${tool.command} is not installed`);
+    return;
+  }
+
+  const hookContext = { worktreePath: wt.path, branch: wt.branch || '', mainRepoPath };
+  if (!await runTuiHooks('preLaunch', hookContext)) return;
+
+  // The first launch starts on the task saved when the worktree was created
+  const metadata = evaluations.get(wt.path)?.metadata;
+  const prompt = metadata && !metadata.launchedAt && acceptsPrompt(tool) ? metadata.prompt : undefined;
+
+  // In a multiplexer the tool gets its own window and the TUI stays open
+  if (multiplexer) {
+    try {
+      const pid = await launchAIToolInWindow({ cwd: wt.path, tool, prompt, multiplexer, name: windowName });
+      await recordLaunch(wt.path, tool.id);
+      await recordSession(wt.path, tool, pid);
+      await refreshWorktrees();
+      setStatus(`${tool.name} started in ${formatWindow(multiplexer, windowName)} - press [${tool.key}] again to switch to it`);
+    } catch (e: any) {
+      setStatus(`Error: ${e.message}`);
+    }
     return;
   }
 
   cleanupScreen();
-  launchAITool({ cwd: wt.path, tool });
-  console.log(`\n${tool} launched in: ${path.basename(wt.path)}\n`);
-  process.exit(0);
+  let child;
+  try {
+    child = await launchAITool({ cwd: wt.path, tool, prompt });
+  } catch (e: any) {
+    console.error(`Error: ${e.message}`);
+    process.exit(1);
+  }
+  await recordLaunch(wt.path, tool.id);
+  await recordSession(wt.path, tool, child);
+  console.log(`\n${tool.name} launched in: ${path.basename(wt.path)}\n`);
+  // wt stays until the tool exits, so its session is forgotten with it
+}
+
+/**
+ * Switch to a worktree's window. Outside tmux, attaching needs the terminal,
+ * so the TUI steps aside until the session is detached.
+ */
+async function jumpToWindow(target: Multiplexer, name: string): Promise<void> {
+  if (target === 'tmux' && !process.env.TMUX) {
+    suspended = true;
+    screen.exec('tmux', getAttachArgs(name), {}, (err: Error | null) => {
+      suspended = false;
+      setStatus(err ? `Error: ${err.message}` : `Detached from ${formatWindow(target, name)}`);
+      worktreeList.focus();
+      // Catch up on whatever changed while the session was attached
+      refreshWorktrees(true).catch((e: any) => setStatus(`Error: ${e.message}`));
+    });
+    return;
+  }
+
+  try {
+    await focusWindow(target, name);
+    setStatus(`Switched to ${formatWindow(target, name)}`);
+  } catch (e: any) {
+    setStatus(`Error: ${e.message}`);
+  }
 }
 
 async function pushSelected(): Promise<void> {
-  const wt = worktrees[selectedIndex];
+  const wt = getSelected();
   if (!wt?.branch) {
     setStatus('No branch to push');
     return;
@@ -283,15 +1038,15 @@ async function pushSelected(): Promise<void> {
 
   setStatus(`Pushing ${wt.branch}...`);
   try {
-    await pushBranch(wt.branch, wt.path);
-    setStatus(`Pushed ${wt.branch} to origin`);
+    await pushBranch(wt.branch, wt.path, remotes.push);
+    setStatus(`Pushed ${wt.branch} to ${remotes.push}`);
   } catch (e: any) {
     setStatus(`Error: ${e.message}`);
   }
 }
 
 async function deleteSelected(): Promise<void> {
-  const wt = worktrees[selectedIndex];
+  const wt = getSelected();
   if (!wt) return;
 
   if (wt.path === mainRepoPath) {
@@ -300,33 +1055,56 @@ async function deleteSelected(): Promise<void> {
   }
 
   const dirName = path.basename(wt.path);
+  // Deleting stops the AI tools still working in the worktree
+  const running = sessions.get(wt.path) ?? [];
+  const warning = running.length > 0 ? `\n${running.map(formatSession).join(', ')} is running and will be stopped.` : '';
 
   const dialog = blessed.question({
     parent: screen,
     top: 'center',
     left: 'center',
-    width: 40,
-    height: 5,
+    width: running.length > 0 ? 60 : 40,
+    height: running.length > 0 ? 7 : 5,
     border: { type: 'line' },
     style: { fg: 'default', border: { fg: 'red' } }
   });
 
-  dialog.ask(`Delete ${dirName}?`, async (_err: Error | null, yes: string) => {
+  dialog.ask(`Delete ${dirName}?${warning}`, async (_err: Error | null, yes: string) => {
     dialog.destroy();
 
     if (yes) {
+      const hookContext = { worktreePath: wt.path, branch: wt.branch || '', mainRepoPath };
+      if (!await runTuiHooks('preRemove', hookContext)) {
+        worktreeList.focus();
+        return;
+      }
+
+      for (const session of running) {
+        setStatus(`Stopping ${formatSession(session)}...`);
+        await stopSession(session);
+      }
+
       setStatus(`Deleting ${dirName}...`);
+      let deletedMessage: string | undefined;
       try {
         await removeWorktree(wt.path, false);
-        setStatus(`Deleted ${dirName}`);
+        deletedMessage = `Deleted ${dirName}`;
       } catch {
         try {
           await removeWorktree(wt.path, true);
-          setStatus(`Deleted ${dirName} (forced)`);
+          deletedMessage = `Deleted ${dirName} (forced)`;
         } catch (e: any) {
           setStatus(`Error: ${e.message}`);
         }
       }
+      if (deletedMessage) {
+        await releasePorts(wt.path);
+        await forgetInstall(wt.path);
+        await forgetMetadata(wt.path);
+      }
+      if (deletedMessage && await runTuiHooks('postRemove', hookContext)) {
+        setStatus(deletedMessage);
+      }
       if (selectedIndex > 0) selectedIndex--;
       await refreshWorktrees();
     } else {
@@ -1,14 +1,30 @@
 import chalk from 'chalk';
 import path from 'path';
+import { isGitRepo, getGitRoot, listWorktrees, WorktreeStatus } from '../utils/git.js';
+import { formatAge, formatChanges, formatUpstreamSync, formatBaseSync, formatLaunch, isDirty, truncate, padEnd } from '../ui/format.js';
+import type { WorktreeMetadata } from '../utils/metadata.js';
+import { loadConfig } from '../utils/config.js';
+import { getPortAllocations, formatPorts } from '../utils/ports.js';
+import { getInstallRecords, formatInstall } from '../utils/deps.js';
+import { createStatusContext, evaluateWorktrees } from '../utils/status.js';
 import {
-  isGitRepo,
-  getGitRoot,
-  listWorktrees,
-  remoteBranchExists,
-  isBranchMerged
-} from '../utils/git.js';
-
-export async function listCommand(): Promise<void> {
+  getOutputFormat,
+  toWorktreeRecord,
+  formatJson,
+  formatPorcelain,
+  OutputOptions,
+  WorktreeRecord
+} from '../utils/output.js';
+
+export interface ListCommandOptions extends OutputOptions {
+  remote?: string;
+  /** Only list the worktrees of this `wt spawn` group */
+  group?: string;
+}
+
+export async function listCommand(options: ListCommandOptions = {}): Promise<void> {
+  const format = getOutputFormat(options);
+
   // Validate we're in a git repo
   if (!await isGitRepo()) {
     console.error(chalk.red('Error: Not a git repository'));
@@ -16,10 +32,35 @@ export async function listCommand(): Promise<void> {
   }
 
   const mainRepoPath = await getGitRoot();
+  const config = await loadConfig(mainRepoPath);
   const worktrees = await listWorktrees();
+  const portAllocations = await getPortAllocations();
+  const installs = await getInstallRecords();
+  const context = await createStatusContext(mainRepoPath, config, options.remote);
+
+  const shown = options.group
+    ? worktrees.filter(wt => context.metadata[wt.path]?.group === options.group)
+    : worktrees;
+
+  const evaluations = await evaluateWorktrees(context, shown);
+  const records: WorktreeRecord[] = evaluations.map(evaluation => toWorktreeRecord(evaluation.worktree, {
+    ...evaluation,
+    ports: portAllocations[evaluation.worktree.path]?.ports,
+    install: installs[evaluation.worktree.path]
+  }));
+
+  if (format === 'json') {
+    console.log(formatJson('list', { worktrees: records }));
+    return;
+  }
+
+  if (format === 'porcelain') {
+    console.log(formatPorcelain(records));
+    return;
+  }
 
-  if (worktrees.length === 0) {
-    console.log(chalk.yellow('No worktrees found'));
+  if (shown.length === 0) {
+    console.log(chalk.yellow(options.group ? `No worktrees found in group: ${options.group}` : 'No worktrees found'));
     return;
   }
 
@@ -38,64 +79,88 @@ export async function listCommand(): Promise<void> {
     chalk.dim('─'.repeat(100))
   );
 
-  for (const wt of worktrees) {
-    const isMain = wt.path === mainRepoPath;
-    const status = await getWorktreeStatus(wt.branch, wt.detached, isMain);
-
+  for (const record of records) {
     // Shorten path for display
-    const displayPath = shortenPath(wt.path, 48);
-    const displayBranch = wt.detached ? chalk.yellow('(detached)') : (wt.branch || 'N/A');
+    const displayPath = shortenPath(record.path, 48);
+    const displayBranch = record.detached ? chalk.yellow('(detached)') : (record.branch || 'N/A');
+
+    const allocation = portAllocations[record.path];
+    const ports = allocation ? chalk.magenta(`  ${formatPorts(allocation)}`) : '';
 
     console.log(
-      padEnd(isMain ? chalk.bold(displayPath) : displayPath, 50) +
+      padEnd(record.main ? chalk.bold(displayPath) : displayPath, 50) +
       padEnd(displayBranch, 25) +
-      status
+      formatBranchStatus(record) +
+      ports
     );
+
+    if (!record.bare) {
+      const details = record.status ? formatDetails(record.status) : chalk.red('missing');
+      const install = record.install ? chalk.dim(`  deps: ${formatInstall(record.install)}`) : '';
+      console.log(chalk.dim('  └ ') + details + install);
+    }
+
+    if (record.metadata) {
+      console.log('    ' + formatMetadata(record.metadata));
+    }
   }
 
   console.log(chalk.dim('─'.repeat(100)));
-  console.log(chalk.dim(`\nTotal: ${worktrees.length} worktree(s)`));
+  console.log(chalk.dim(`\nTotal: ${shown.length} worktree(s)`));
 }
 
-async function getWorktreeStatus(
-  branch: string | undefined,
-  detached: boolean,
-  isMain: boolean
-): Promise<string> {
-  if (isMain) {
+function formatBranchStatus(record: WorktreeRecord): string {
+  if (record.main) {
     return chalk.blue('main');
   }
 
-  if (detached) {
+  if (record.detached) {
     return chalk.yellow('detached');
   }
 
-  if (!branch) {
+  if (!record.branch) {
     return chalk.dim('unknown');
   }
 
-  // Check if branch still exists on remote
-  const existsOnRemote = await remoteBranchExists(branch);
-
-  // Check if branch has been merged
-  const isMerged = await isBranchMerged(branch);
-
-  if (isMerged) {
-    return chalk.green('merged') + chalk.dim(' (can clean)');
+  if (record.mergeStatus === 'merged') {
+    return chalk.green(`merged (${record.mergeMethod})`) + chalk.dim(' (can clean)');
   }
 
-  if (!existsOnRemote) {
+  if (record.remoteStatus === 'local-only') {
     return chalk.yellow('local only');
   }
 
   return chalk.green('active');
 }
 
-function padEnd(str: string, length: number): string {
-  // Remove chalk codes for length calculation
-  const visibleLength = str.replace(/\x1B\[[0-9;]*m/g, '').length;
-  const padding = Math.max(0, length - visibleLength);
-  return str + ' '.repeat(padding);
+function formatMetadata(metadata: WorktreeMetadata): string {
+  const parts = [
+    metadata.group ? `group ${metadata.group}` : '',
+    metadata.baseBranch ? `from ${metadata.baseBranch}` : '',
+    `created ${formatAge(Date.parse(metadata.createdAt) / 1000)}`,
+    formatLaunch(metadata)
+  ].filter(Boolean).map(part => chalk.dim(part));
+
+  if (metadata.note) parts.unshift(chalk.italic(truncate(metadata.note, 60)));
+  return parts.join(chalk.dim(' · '));
+}
+
+function formatDetails(status: WorktreeStatus): string {
+  const parts = [
+    isDirty(status) ? chalk.yellow(formatChanges(status)) : chalk.dim(formatChanges(status))
+  ];
+
+  const upstream = formatUpstreamSync(status);
+  if (upstream) parts.push(chalk.cyan(upstream) + chalk.dim(` ${status.upstream}`));
+
+  const base = formatBaseSync(status);
+  if (base) parts.push(chalk.dim(base));
+
+  if (status.lastCommit) {
+    parts.push(chalk.dim(`${formatAge(status.lastCommit.timestamp)} `) + truncate(status.lastCommit.subject, 50));
+  }
+
+  return parts.join(chalk.dim(' · '));
 }
 
 function shortenPath(p: string, maxLength: number): string {
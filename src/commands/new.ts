@@ -1,29 +1,54 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import path from 'path';
+import { realpath } from 'fs/promises';
 import {
   isGitRepo,
   getGitRoot,
   createWorktree,
+  branchExists,
+  refExists,
+  findRemoteBranch,
+  getDefaultBranch,
+  fetchDefaultBranch,
   getWorktreePath,
-  pushBranch
+  pushBranch,
+  findWorktree,
+  getWorktreeStatus,
+  CreatedBranch
 } from '../utils/git.js';
-import { copyEnvFiles } from '../utils/env.js';
 import {
-  launchAITool,
-  isToolAvailable,
-  detectPackageManager,
-  runInstall
-} from '../utils/launcher.js';
-import { selectAITool } from '../ui/selector.js';
-
-export interface NewCommandOptions {
+  getOutputFormat,
+  toWorktreeRecord,
+  formatJson,
+  formatPorcelain,
+  OutputOptions
+} from '../utils/output.js';
+import { loadConfig, getRemotes } from '../utils/config.js';
+import { requestCd } from '../utils/shell.js';
+import { recordCreated } from '../utils/metadata.js';
+import { prepareWorktree, launchInWorktree, resolveLaunchOptions, LaunchSettings } from '../ui/setup.js';
+
+export interface NewCommandOptions extends OutputOptions {
   install?: boolean;
+  installStrategy?: string;
   skipLaunch?: boolean;
   push?: boolean;
+  tool?: string;
+  from?: string;
+  fresh?: boolean;
+  remote?: string;
+  note?: string;
+  prompt?: string;
+  promptFile?: string;
 }
 
 export async function newCommand(branchName: string, options: NewCommandOptions): Promise<void> {
+  // Machine-readable output goes to stdout alone; progress moves to stderr and nothing is launched
+  const format = getOutputFormat(options);
+  const log = format === 'text' ? console.log : console.error;
+  const skipLaunch = options.skipLaunch || format !== 'text';
+
   // 1. Validate we're in a git repo
   if (!await isGitRepo()) {
     console.error(chalk.red('Error: Not a git repository'));
@@ -31,97 +56,132 @@ export async function newCommand(branchName: string, options: NewCommandOptions)
   }
 
   const mainRepoPath = await getGitRoot();
+  const config = await loadConfig(mainRepoPath);
   const repoName = path.basename(mainRepoPath);
-  const worktreePath = getWorktreePath(mainRepoPath, branchName);
+  const worktreePath = getWorktreePath(mainRepoPath, branchName, config.worktreePath);
+
+  // Command line flags take precedence over config
+  const push = options.push ?? config.push;
+  const remotes = getRemotes(config, options.remote);
+  // An explicit --from wins over a configured fresh default
+  const fresh = options.from ? false : options.fresh ?? config.fresh;
+
+  if (options.from && options.fresh) {
+    console.error(chalk.red('Error: --from and --fresh cannot be used together'));
+    process.exit(1);
+  }
 
-  console.log(chalk.cyan(`\nCreating worktree for branch: ${chalk.bold(branchName)}`));
-  console.log(chalk.dim(`Repository: ${repoName}`));
-  console.log(chalk.dim(`Worktree path: ${worktreePath}\n`));
+  let launch: LaunchSettings;
+  try {
+    launch = await resolveLaunchOptions(config, { ...options, skipLaunch });
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+  const { install, installStrategy, tool: configuredTool, prompt } = launch;
 
-  // 2. Create worktree
+  log(chalk.cyan(`\nCreating worktree for branch: ${chalk.bold(branchName)}`));
+  log(chalk.dim(`Repository: ${repoName}`));
+  log(chalk.dim(`Worktree path: ${worktreePath}\n`));
+
+  // 2. Resolve where a new branch starts from
+  let startPoint = options.from;
+  const exists = await branchExists(branchName);
+
+  if (startPoint && exists) {
+    log(chalk.yellow(`Branch ${branchName} already exists, ignoring --from ${startPoint}\n`));
+    startPoint = undefined;
+  } else if (startPoint && !await refExists(startPoint)) {
+    console.error(chalk.red(`Error: Unknown ref: ${startPoint}`));
+    process.exit(1);
+  } else if (fresh && !exists && !await findRemoteBranch(branchName, remotes.push)) {
+    const baseBranch = config.defaultBranch || await getDefaultBranch(remotes.base);
+    const fetchSpinner = ora(`Fetching latest ${baseBranch}...`).start();
+    const { ref, fetched } = await fetchDefaultBranch(baseBranch, remotes.base);
+    if (fetched) {
+      fetchSpinner.succeed(chalk.green(`Fetched latest ${ref}`));
+    } else {
+      fetchSpinner.warn(chalk.yellow(`Could not fetch ${remotes.base}/${baseBranch}, using ${ref}`));
+    }
+    startPoint = ref;
+  }
+
+  // 3. Create worktree
   const spinner = ora('Creating worktree...').start();
 
+  let branch: CreatedBranch;
   try {
-    await createWorktree(worktreePath, branchName);
-    spinner.succeed(chalk.green('Worktree created successfully'));
+    branch = await createWorktree(worktreePath, branchName, startPoint, remotes.push);
+    const detail = !branch.created
+      ? 'existing branch'
+      : branch.upstream ? `tracking ${branch.upstream}` : `from ${branch.startPoint ?? 'HEAD'}`;
+    spinner.succeed(chalk.green(`Worktree created successfully (${detail})`));
   } catch (error: any) {
     spinner.fail(chalk.red('Failed to create worktree'));
     console.error(chalk.red(error.message || error));
     process.exit(1);
   }
 
-  // 3. Push branch to remote if requested
-  if (options.push) {
+  // Remember when and from what the worktree was created, and what it's for
+  const metadata = await recordCreated(worktreePath, branchName, branch, { note: options.note, prompt });
+
+  // 4. Push branch to remote if requested
+  if (push) {
     const pushSpinner = ora('Pushing branch to remote...').start();
     try {
-      await pushBranch(branchName, worktreePath);
-      pushSpinner.succeed(chalk.green(`Pushed ${branchName} to origin`));
+      await pushBranch(branchName, worktreePath, remotes.push);
+      pushSpinner.succeed(chalk.green(`Pushed ${branchName} to ${remotes.push}`));
     } catch (error: any) {
       pushSpinner.fail(chalk.yellow(`Could not push: ${error.message}`));
     }
   }
 
-  // 4. Copy .env files
-  const envSpinner = ora('Copying .env files...').start();
-
-  try {
-    const copiedFiles = await copyEnvFiles(mainRepoPath, worktreePath);
-    if (copiedFiles.length > 0) {
-      envSpinner.succeed(chalk.green(`Copied ${copiedFiles.length} env file(s): ${copiedFiles.join(', ')}`));
-    } else {
-      envSpinner.info(chalk.yellow('No .env files found to copy'));
-    }
-  } catch (error: any) {
-    envSpinner.warn(chalk.yellow(`Warning: Could not copy env files: ${error.message}`));
+  // 5. Copy env files, allocate ports, install and run post-create hooks
+  const hookContext = { worktreePath, branch: branchName, mainRepoPath };
+  const { copied, linked, conflicts, allocation, install: installed, hooksPassed } = await prepareWorktree({
+    ...hookContext,
+    config,
+    install,
+    installStrategy,
+    format,
+    installHint: 'wt new --install'
+  });
+  if (!hooksPassed) {
+    log(chalk.dim(`\nWorktree is ready at: ${worktreePath}`));
+    process.exit(1);
   }
 
-  // 5. Optionally run package manager install
-  if (options.install) {
-    const packageManager = await detectPackageManager(worktreePath);
-    if (packageManager) {
-      const installSpinner = ora(`Running ${packageManager} install...`).start();
-      try {
-        await runInstall(worktreePath, packageManager);
-        installSpinner.succeed(chalk.green(`${packageManager} install completed`));
-      } catch (error: any) {
-        installSpinner.fail(chalk.red(`${packageManager} install failed: ${error.message}`));
+  // 6. Print machine-readable result
+  if (format !== 'text') {
+    const worktree = await findWorktree(await realpath(worktreePath));
+    const record = toWorktreeRecord(
+      worktree ?? { path: worktreePath, branch: branchName, head: '', bare: false, detached: false },
+      {
+        isMain: false,
+        status: await getWorktreeStatus(worktreePath).catch(() => null),
+        ports: allocation?.ports,
+        install: installed,
+        metadata
       }
-    }
-  } else {
-    // Check if there's a package.json and suggest install
-    const packageManager = await detectPackageManager(worktreePath);
-    if (packageManager) {
-      console.log(chalk.dim(`\nTip: Run '${packageManager} install' in the worktree, or use 'wt new --install' next time`));
-    }
+    );
+    const result = { ...record, copied, linked, conflicts };
+
+    console.log(format === 'json' ? formatJson('new', { worktree: result }) : formatPorcelain([result]));
+    return;
   }
 
-  // 6. Skip launch if requested
+  // 7. Hand the worktree to the shell integration, which changes into it once wt exits
+  const handedOff = await requestCd(worktreePath);
+
+  // 8. Skip launch if requested
   if (options.skipLaunch) {
-    console.log(chalk.green(`\n✓ Worktree ready at: ${worktreePath}`));
-    console.log(chalk.dim(`  cd "${worktreePath}"`));
+    log(chalk.green(`\n✓ Worktree ready at: ${worktreePath}`));
+    if (!handedOff) log(chalk.dim(`  cd "${worktreePath}"`));
     return;
   }
 
-  // 7. Show AI tool selector
-  console.log(''); // Empty line for spacing
-  const selectedTool = await selectAITool();
-
-  // 8. Check if tool is available
-  const toolAvailable = await isToolAvailable(selectedTool);
-  if (!toolAvailable) {
-    console.error(chalk.red(`\nError: ${selectedTool} is not installed or not in PATH`));
-    console.log(chalk.dim(`Worktree is ready at: ${worktreePath}`));
-    console.log(chalk.dim(`You can manually launch your AI tool there.`));
+  // 9. Pick, check and launch the AI tool
+  if (!await launchInWorktree({ ...hookContext, config, tool: configuredTool, prompt })) {
     process.exit(1);
   }
-
-  // 9. Launch the selected tool
-  console.log(chalk.cyan(`\nLaunching ${selectedTool} in worktree...`));
-
-  launchAITool({
-    cwd: worktreePath,
-    tool: selectedTool
-  });
-
-  console.log(chalk.green(`\n✓ ${selectedTool} launched in: ${worktreePath}`));
 }
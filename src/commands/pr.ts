@@ -0,0 +1,177 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import {
+  isGitRepo,
+  getGitRoot,
+  getDefaultBranch,
+  createWorktree,
+  getWorktreePath,
+  findWorktree,
+  fetchRef,
+  fastForward,
+  validateBranchName,
+  CreatedBranch
+} from '../utils/git.js';
+import { loadConfig, getRemotes, PullRequestConfig } from '../utils/config.js';
+import { requestCd } from '../utils/shell.js';
+import { recordCreated } from '../utils/metadata.js';
+import { prepareWorktree, launchInWorktree, resolveLaunchOptions, LaunchSettings } from '../ui/setup.js';
+
+export interface PrCommandOptions {
+  install?: boolean;
+  installStrategy?: string;
+  skipLaunch?: boolean;
+  tool?: string;
+  remote?: string;
+  review?: boolean;
+}
+
+export const DEFAULT_PR_REF = 'refs/pull/{number}/head';
+export const DEFAULT_PR_BRANCH = 'pr/{id}';
+export const DEFAULT_REVIEW_PROMPT =
+  'Review {target}. Run `git diff {base}...HEAD` to see the changes, summarize what they do, ' +
+  'and point out bugs, risks and missing tests. Do not modify any files.';
+
+interface PullRequestTarget {
+  /** Human-readable description, e.g. "pull request #42" */
+  label: string;
+  /** Ref fetched from the remote */
+  ref: string;
+  /** Local branch the worktree checks out */
+  branch: string;
+}
+
+/**
+ * Resolve `wt pr` input to a ref to fetch and a local review branch.
+ * Numbers ("42", "#42" or a pull request URL) use the configured PR refs;
+ * anything else is a branch on the remote.
+ */
+function resolveTarget(input: string, config: PullRequestConfig): PullRequestTarget {
+  const match = input.match(/^#?(\d+)$/) || input.match(/\/(?:pull|merge_requests)\/(\d+)/);
+
+  if (match) {
+    const number = match[1];
+    return {
+      label: `pull request #${number}`,
+      ref: (config.ref || DEFAULT_PR_REF).replace(/\{number\}/g, number),
+      branch: (config.branch || DEFAULT_PR_BRANCH).replace(/\{id\}/g, number)
+    };
+  }
+
+  // Fetched into its own branch so a local branch of the same name is never overwritten
+  validateBranchName(input);
+  return {
+    label: `branch ${input}`,
+    ref: `refs/heads/${input}`,
+    branch: (config.branch || DEFAULT_PR_BRANCH).replace(/\{id\}/g, input)
+  };
+}
+
+export async function prCommand(input: string, options: PrCommandOptions): Promise<void> {
+  // 1. Validate we're in a git repo
+  if (!await isGitRepo()) {
+    console.error(chalk.red('Error: Not a git repository'));
+    process.exit(1);
+  }
+
+  const mainRepoPath = await getGitRoot();
+  const config = await loadConfig(mainRepoPath);
+  const prConfig = config.pr ?? {};
+  const remote = options.remote || prConfig.remote || getRemotes(config).base;
+  const baseBranch = config.defaultBranch || await getDefaultBranch(getRemotes(config).base);
+  const target = resolveTarget(input, prConfig);
+
+  let launch: LaunchSettings;
+  try {
+    launch = await resolveLaunchOptions(config, options);
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+  const { install, installStrategy, tool: configuredTool } = launch;
+
+  console.log(chalk.cyan(`\nChecking out ${target.label} from ${chalk.bold(remote)}`));
+  console.log(chalk.dim(`Review branch: ${target.branch}`));
+
+  // 2. Fetch the ref, or update the review worktree if it already exists
+  const existing = await findWorktree(target.branch);
+  const worktreePath = existing?.path ?? getWorktreePath(mainRepoPath, target.branch, config.worktreePath);
+  const fetchSpinner = ora(`Fetching ${target.ref}...`).start();
+
+  try {
+    if (existing) {
+      await fetchRef(remote, target.ref, undefined, existing.path);
+      await fastForward(existing.path, 'FETCH_HEAD');
+      fetchSpinner.succeed(chalk.green(`Updated existing worktree at ${existing.path}`));
+    } else {
+      await fetchRef(remote, target.ref, target.branch);
+      fetchSpinner.succeed(chalk.green(`Fetched ${target.ref} into ${target.branch}`));
+    }
+  } catch (error: any) {
+    fetchSpinner.fail(chalk.red(`Could not fetch ${target.ref} from ${remote}`));
+    console.error(chalk.red(error.message || error));
+    process.exit(1);
+  }
+
+  const hookContext = { worktreePath, branch: target.branch, mainRepoPath };
+
+  if (!existing) {
+    console.log(chalk.dim(`Worktree path: ${worktreePath}\n`));
+
+    // 3. Create worktree
+    const spinner = ora('Creating worktree...').start();
+
+    let branch: CreatedBranch;
+    try {
+      branch = await createWorktree(worktreePath, target.branch);
+      spinner.succeed(chalk.green('Worktree created successfully'));
+    } catch (error: any) {
+      spinner.fail(chalk.red('Failed to create worktree'));
+      console.error(chalk.red(error.message || error));
+      process.exit(1);
+    }
+
+    // The review branch is compared against the default branch, like the pull request itself
+    await recordCreated(worktreePath, target.branch, branch, {
+      base: baseBranch,
+      note: `Review ${target.label}`
+    });
+
+    // 4. Copy env files, allocate ports, install and run post-create hooks
+    const { hooksPassed } = await prepareWorktree({
+      ...hookContext,
+      config,
+      install,
+      installStrategy,
+      format: 'text',
+      installHint: 'wt pr --install'
+    });
+    if (!hooksPassed) {
+      console.log(chalk.dim(`\nWorktree is ready at: ${worktreePath}`));
+      process.exit(1);
+    }
+  }
+
+  // 5. Let the shell integration change into the worktree
+  const handedOff = await requestCd(worktreePath);
+
+  // 6. Skip launch if requested
+  if (options.skipLaunch) {
+    console.log(chalk.green(`\n✓ Worktree ready at: ${worktreePath}`));
+    if (!handedOff) console.log(chalk.dim(`  cd "${worktreePath}"`));
+    return;
+  }
+
+  // 7. Launch the AI tool with a review task
+  let prompt: string | undefined;
+  if (options.review !== false) {
+    prompt = (prConfig.prompt || DEFAULT_REVIEW_PROMPT)
+      .replace(/\{target\}/g, target.label)
+      .replace(/\{branch\}/g, target.branch)
+      .replace(/\{base\}/g, baseBranch);
+  }
+
+  if (!await launchInWorktree({ ...hookContext, config, tool: configuredTool, prompt })) {
+    process.exit(1);
+  }
+}
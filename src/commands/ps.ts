@@ -0,0 +1,100 @@
+import chalk from 'chalk';
+import path from 'path';
+import { isGitRepo, getGitRoot, listWorktrees, findWorktree } from '../utils/git.js';
+import { getActiveSessions, getWorktreeSessions, stopSession, formatSession } from '../utils/sessions.js';
+import { formatAge, padEnd } from '../ui/format.js';
+import { getOutputFormat, formatJson, formatPorcelain, OutputOptions } from '../utils/output.js';
+
+export async function psCommand(options: OutputOptions = {}): Promise<void> {
+  const format = getOutputFormat(options);
+
+  // Validate we're in a git repo
+  if (!await isGitRepo()) {
+    console.error(chalk.red('Error: Not a git repository'));
+    process.exit(1);
+  }
+
+  const mainRepoPath = await getGitRoot();
+  const [sessions, worktrees] = await Promise.all([getActiveSessions(), listWorktrees()]);
+  const records = sessions.map(({ worktreePath, ...session }) => ({
+    path: worktreePath,
+    branch: worktrees.find(wt => wt.path === worktreePath)?.branch || null,
+    ...session
+  }));
+
+  if (format === 'json') {
+    console.log(formatJson('ps', { sessions: records }));
+    return;
+  }
+
+  if (format === 'porcelain') {
+    console.log(formatPorcelain(records));
+    return;
+  }
+
+  if (records.length === 0) {
+    console.log(chalk.yellow('No AI sessions running'));
+    return;
+  }
+
+  console.log(chalk.cyan(`\nAI sessions for: ${chalk.bold(path.basename(mainRepoPath))}\n`));
+  console.log(
+    chalk.bold(padEnd('Worktree', 30)) +
+    chalk.bold(padEnd('Branch', 24)) +
+    chalk.bold(padEnd('Tool', 10)) +
+    chalk.bold(padEnd('PID', 9)) +
+    chalk.bold(padEnd('Started', 10)) +
+    chalk.bold('Log')
+  );
+  console.log(chalk.dim('─'.repeat(100)));
+
+  for (const record of records) {
+    console.log(
+      padEnd(path.basename(record.path), 30) +
+      padEnd(record.branch ?? chalk.dim('(detached)'), 24) +
+      padEnd(chalk.green(record.tool), 10) +
+      padEnd(String(record.pid), 9) +
+      padEnd(formatAge(Date.parse(record.startedAt) / 1000), 10) +
+      chalk.dim(record.logFile ?? '')
+    );
+  }
+
+  console.log(chalk.dim('─'.repeat(100)));
+  console.log(chalk.dim(`\nTotal: ${records.length} session(s)`));
+}
+
+export interface KillCommandOptions {
+  /** Only stop the session with this pid */
+  pid?: string;
+}
+
+export async function killCommand(identifier: string, options: KillCommandOptions = {}): Promise<void> {
+  // Validate we're in a git repo
+  if (!await isGitRepo()) {
+    console.error(chalk.red('Error: Not a git repository'));
+    process.exit(1);
+  }
+
+  const worktree = await findWorktree(identifier);
+  if (!worktree) {
+    console.error(chalk.red(`Worktree not found: ${identifier}`));
+    console.log(chalk.dim('\nTip: Run "wt ps" to see running sessions'));
+    process.exit(1);
+  }
+
+  const name = path.basename(worktree.path);
+  let sessions = await getWorktreeSessions(worktree.path);
+  if (options.pid !== undefined) {
+    sessions = sessions.filter(s => String(s.pid) === options.pid);
+  }
+
+  if (sessions.length === 0) {
+    console.log(chalk.yellow(`No AI sessions running in ${name}`));
+    return;
+  }
+
+  for (const session of sessions) {
+    const killed = await stopSession(session);
+    console.log(chalk.green(`✓ ${killed ? 'Killed' : 'Stopped'} ${formatSession(session)} in ${name}`));
+  }
+}
@@ -7,7 +7,13 @@ import {
   findWorktree,
   removeWorktree
 } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { releasePorts } from '../utils/ports.js';
+import { forgetInstall } from '../utils/deps.js';
+import { forgetMetadata } from '../utils/metadata.js';
+import { getWorktreeSessions, stopSession, formatSession } from '../utils/sessions.js';
 import { confirm } from '../ui/selector.js';
+import { runHooksWithSpinner } from '../ui/hooks.js';
 
 export interface RemoveCommandOptions {
   force?: boolean;
@@ -21,6 +27,7 @@ export async function removeCommand(identifier: string, options: RemoveCommandOp
   }
 
   const mainRepoPath = await getGitRoot();
+  const config = await loadConfig(mainRepoPath);
 
   // Find the worktree
   const spinner = ora('Finding worktree...').start();
@@ -45,6 +52,14 @@ export async function removeCommand(identifier: string, options: RemoveCommandOp
   console.log(chalk.dim(`  Path:   ${worktree.path}`));
   console.log(chalk.dim(`  Branch: ${worktree.branch || '(detached)'}`));
 
+  // Removing a worktree from under a running AI tool loses its work
+  const sessions = await getWorktreeSessions(worktree.path);
+  if (sessions.length > 0 && !options.force) {
+    console.error(chalk.red(`\nError: ${sessions.map(formatSession).join(', ')} is still running in this worktree`));
+    console.log(chalk.dim(`Tip: Stop it with "wt kill ${path.basename(worktree.path)}" or use --force`));
+    process.exit(1);
+  }
+
   // Confirm unless force flag is set
   if (!options.force) {
     const confirmed = await confirm('\nRemove this worktree?', false);
@@ -54,6 +69,18 @@ export async function removeCommand(identifier: string, options: RemoveCommandOp
     }
   }
 
+  // Run pre-remove hooks (a failing hook aborts removal)
+  const hookContext = { worktreePath: worktree.path, branch: worktree.branch || '', mainRepoPath };
+  if (!await runHooksWithSpinner(config, 'preRemove', hookContext)) {
+    console.error(chalk.red('\nError: preRemove hook failed, worktree was not removed'));
+    process.exit(1);
+  }
+
+  for (const session of sessions) {
+    await stopSession(session);
+    console.log(chalk.yellow(`Stopped ${formatSession(session)}`));
+  }
+
   // Remove the worktree
   const removeSpinner = ora('Removing worktree...').start();
 
@@ -76,4 +103,11 @@ export async function removeCommand(identifier: string, options: RemoveCommandOp
       process.exit(1);
     }
   }
+
+  await releasePorts(worktree.path);
+  await forgetInstall(worktree.path);
+  await forgetMetadata(worktree.path);
+
+  // Run post-remove hooks
+  await runHooksWithSpinner(config, 'postRemove', hookContext);
 }
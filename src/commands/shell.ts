@@ -0,0 +1,36 @@
+import chalk from 'chalk';
+import { isGitRepo, findWorktree } from '../utils/git.js';
+import { SHELLS, isShell, getShellInit, requestCd } from '../utils/shell.js';
+
+export async function shellInitCommand(shell: string): Promise<void> {
+  if (!isShell(shell)) {
+    console.error(chalk.red(`Error: Unsupported shell: ${shell}`));
+    console.error(chalk.dim(`Supported shells: ${SHELLS.join(', ')}`));
+    process.exit(1);
+  }
+
+  process.stdout.write(getShellInit(shell));
+}
+
+export async function cdCommand(identifier: string): Promise<void> {
+  // Validate we're in a git repo
+  if (!await isGitRepo()) {
+    console.error(chalk.red('Error: Not a git repository'));
+    process.exit(1);
+  }
+
+  const worktree = await findWorktree(identifier);
+  if (!worktree) {
+    console.error(chalk.red(`Worktree not found: ${identifier}`));
+    console.error(chalk.dim('\nTip: Run "wt list" to see available worktrees'));
+    process.exit(1);
+  }
+
+  if (await requestCd(worktree.path)) return;
+
+  // Without the shell integration, print the path for `cd "$(wt cd <name>)"`
+  console.log(worktree.path);
+  if (process.stdout.isTTY) {
+    console.error(chalk.dim(`\nTip: Add 'eval "$(wt shell-init bash)"' to your shell config to let wt change directory`));
+  }
+}
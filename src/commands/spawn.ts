@@ -0,0 +1,210 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import { existsSync } from 'fs';
+import {
+  isGitRepo,
+  getGitRoot,
+  getCurrentBranch,
+  getCommit,
+  createWorktree,
+  branchExists,
+  refExists,
+  getDefaultBranch,
+  fetchDefaultBranch,
+  getWorktreePath,
+  validateBranchName
+} from '../utils/git.js';
+import { loadConfig, getRemotes } from '../utils/config.js';
+import type { ToolDefinition } from '../utils/tools.js';
+import { launchAITool, isToolAvailable } from '../utils/launcher.js';
+import { recordCreated, recordLaunch } from '../utils/metadata.js';
+import { getLogFile } from '../utils/state.js';
+import { recordSession } from '../utils/sessions.js';
+import { runHooksWithSpinner } from '../ui/hooks.js';
+import { prepareWorktree, resolveLaunchOptions, LaunchSettings } from '../ui/setup.js';
+
+export interface SpawnCommandOptions {
+  count?: string;
+  tool?: string;
+  prompt?: string;
+  promptFile?: string;
+  from?: string;
+  fresh?: boolean;
+  remote?: string;
+  install?: boolean;
+  installStrategy?: string;
+  skipLaunch?: boolean;
+}
+
+const DEFAULT_COUNT = 3;
+const MAX_COUNT = 20;
+
+export async function spawnCommand(baseName: string, options: SpawnCommandOptions): Promise<void> {
+  // 1. Validate we're in a git repo and the options make sense
+  if (!await isGitRepo()) {
+    console.error(chalk.red('Error: Not a git repository'));
+    process.exit(1);
+  }
+
+  const count = options.count === undefined ? DEFAULT_COUNT : Number(options.count);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+    console.error(chalk.red(`Error: --count must be a whole number from 1 to ${MAX_COUNT}`));
+    process.exit(1);
+  }
+  if (options.from && options.fresh) {
+    console.error(chalk.red('Error: --from and --fresh cannot be used together'));
+    process.exit(1);
+  }
+  validateBranchName(baseName);
+
+  const mainRepoPath = await getGitRoot();
+  const config = await loadConfig(mainRepoPath);
+  const remotes = getRemotes(config, options.remote);
+  const fresh = options.from ? false : options.fresh ?? config.fresh;
+
+  let launch: LaunchSettings;
+  try {
+    launch = await resolveLaunchOptions(config, options);
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+  const { install, installStrategy, prompt } = launch;
+
+  // Agents run side by side without a terminal, so the tool needs a headless mode
+  let tool: ToolDefinition | undefined;
+  if (!options.skipLaunch) {
+    tool = launch.tool;
+    if (!tool) {
+      console.error(chalk.red('Error: --tool is required (or set defaultTool in config)'));
+      process.exit(1);
+    }
+    if (!tool.headlessArgs) {
+      console.error(chalk.red(`Error: ${tool.name} has no headless mode`));
+      console.log(chalk.dim(`Set tools.${tool.id}.headlessArgs in config, e.g. ["-p"]`));
+      process.exit(1);
+    }
+    if (!await isToolAvailable(tool)) {
+      console.error(chalk.red(`Error: ${tool.command} is not installed or not in PATH`));
+      process.exit(1);
+    }
+  }
+
+  if (tool && !prompt) {
+    console.error(chalk.red('Error: A task is required: use --prompt or --prompt-file'));
+    process.exit(1);
+  }
+
+  // 2. Check that none of the worktrees exist yet
+  const members = Array.from({ length: count }, (_, i) => {
+    const branch = `${baseName}-${i + 1}`;
+    return { branch, worktreePath: getWorktreePath(mainRepoPath, branch, config.worktreePath) };
+  });
+
+  for (const { branch, worktreePath } of members) {
+    if (await branchExists(branch) || existsSync(worktreePath)) {
+      console.error(chalk.red(`Error: ${branch} already exists`));
+      console.log(chalk.dim('Tip: Pick another name for the group'));
+      process.exit(1);
+    }
+  }
+
+  // 3. Resolve one start commit so every attempt begins from the same code
+  let base = options.from;
+  if (base && !await refExists(base)) {
+    console.error(chalk.red(`Error: Unknown ref: ${base}`));
+    process.exit(1);
+  } else if (!base && fresh) {
+    const baseBranch = config.defaultBranch || await getDefaultBranch(remotes.base);
+    const fetchSpinner = ora(`Fetching latest ${baseBranch}...`).start();
+    const { ref, fetched } = await fetchDefaultBranch(baseBranch, remotes.base);
+    if (fetched) {
+      fetchSpinner.succeed(chalk.green(`Fetched latest ${ref}`));
+    } else {
+      fetchSpinner.warn(chalk.yellow(`Could not fetch ${remotes.base}/${baseBranch}, using ${ref}`));
+    }
+    base = ref;
+  }
+  const currentBranch = await getCurrentBranch();
+  const startCommit = await getCommit(base ?? 'HEAD');
+  const baseLabel = base ?? (currentBranch === 'HEAD' ? undefined : currentBranch);
+
+  console.log(chalk.cyan(`\nSpawning ${count} worktree(s) for ${chalk.bold(baseName)}`));
+  console.log(chalk.dim(`From: ${baseLabel ?? 'HEAD'} (${startCommit.slice(0, 7)})`));
+
+  // 4. Create and set up each worktree. The first one installs dependencies;
+  //    the others clone its node_modules since they share the same lockfiles
+  const created: typeof members = [];
+
+  for (const [index, member] of members.entries()) {
+    const { branch, worktreePath } = member;
+    console.log(chalk.bold(`\n[${index + 1}/${count}] ${branch}`));
+
+    const spinner = ora('Creating worktree...').start();
+    try {
+      const createdBranch = await createWorktree(worktreePath, branch, startCommit);
+      await recordCreated(worktreePath, branch, createdBranch, { base: baseLabel, group: baseName, prompt });
+      spinner.succeed(chalk.green(`Created ${worktreePath}`));
+    } catch (error: any) {
+      spinner.fail(chalk.red(`Failed to create ${branch}: ${error.message}`));
+      continue;
+    }
+
+    const first = created[0];
+    const { hooksPassed } = await prepareWorktree({
+      worktreePath,
+      branch,
+      mainRepoPath,
+      config,
+      install,
+      installStrategy: first && installStrategy === 'install' ? 'clone' : installStrategy,
+      dependencySource: first?.worktreePath,
+      format: 'text',
+      installHint: 'wt spawn --install'
+    });
+    if (!hooksPassed) {
+      console.log(chalk.yellow(`Skipping ${branch}: a postCreate hook failed`));
+      continue;
+    }
+
+    created.push(member);
+  }
+
+  if (created.length === 0) {
+    console.error(chalk.red('\nNo worktrees were created'));
+    process.exit(1);
+  }
+
+  // 5. Launch an agent in each worktree in the background
+  if (tool) {
+    console.log('');
+    for (const { branch, worktreePath } of created) {
+      const hookContext = { worktreePath, branch, mainRepoPath };
+      if (!await runHooksWithSpinner(config, 'preLaunch', hookContext)) continue;
+
+      const logFile = await getLogFile(path.basename(worktreePath));
+      let child;
+      try {
+        child = await launchAITool({ cwd: worktreePath, tool, prompt, logFile });
+      } catch (error: any) {
+        console.error(chalk.red(`✗ ${error.message}`));
+        process.exitCode = 1;
+        continue;
+      }
+      await recordLaunch(worktreePath, tool.id);
+      await recordSession(worktreePath, tool, child, logFile);
+      console.log(chalk.green(`✓ ${tool.name} started in ${branch}`) + chalk.dim(`  log: ${logFile}`));
+    }
+  }
+
+  // 6. Point at the group commands
+  console.log(chalk.green(`\n✓ Spawned ${created.length} worktree(s) in group ${baseName}`));
+  console.log(chalk.dim(`  wt list --group ${baseName}     see the attempts`));
+  console.log(chalk.dim(`  wt compare ${baseName}          compare their changes`));
+  console.log(chalk.dim(`  wt clean --group ${baseName}    remove them when done`));
+
+  if (created.length < count) {
+    process.exitCode = 1;
+  }
+}
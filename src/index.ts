@@ -1,11 +1,19 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
+import chalk from 'chalk';
 import { newCommand } from './commands/new.js';
+import { prCommand } from './commands/pr.js';
+import { spawnCommand } from './commands/spawn.js';
+import { compareCommand } from './commands/compare.js';
+import { psCommand, killCommand } from './commands/ps.js';
 import { listCommand } from './commands/list.js';
 import { cleanCommand } from './commands/clean.js';
 import { removeCommand } from './commands/remove.js';
 import { interactiveCommand } from './commands/interactive.js';
+import { cdCommand, shellInitCommand } from './commands/shell.js';
+import { completionCommand, completeCommand } from './commands/completion.js';
+import { configGetCommand, configSetCommand, configListCommand } from './commands/config.js';
 
 const program = new Command();
 
@@ -21,14 +29,100 @@ program
 program
   .command('new <branch-name>')
   .description('Create a new worktree and launch AI assistant')
-  .option('-i, --install', 'Run package manager install after creating worktree')
+  .option('-i, --install', 'Install dependencies of the detected projects after creating worktree')
+  .option('--no-install', 'Skip installing dependencies even if enabled in config')
+  .option('--install-strategy <strategy>', 'How to install: install, clone or symlink the main worktree\'s node_modules (implies --install)')
   .option('-s, --skip-launch', 'Create worktree without launching AI assistant')
   .option('-p, --push', 'Push branch to remote (visible on GitHub)')
+  .option('--no-push', 'Do not push even if enabled in config')
+  .option('-t, --tool <tool>', 'AI assistant to launch without prompting')
+  .option('-f, --from <ref>', 'Branch, tag or commit to fork a new branch from (default: HEAD)')
+  .option('--fresh', 'Fork a new branch from the freshly fetched default branch')
+  .option('--no-fresh', 'Fork from HEAD even if fresh is enabled in config')
+  .option('-r, --remote <remote>', 'Remote to push to and fetch the default branch from (default: pushRemote/baseRemote or origin)')
+  .option('-m, --note <text>', 'Describe the task of the worktree (shown by list and the TUI)')
+  .option('--prompt <text>', 'Task to start the AI assistant with (saved with the worktree)')
+  .option('--prompt-file <file>', 'Read the task from a file')
+  .option('--json', 'Print the created worktree as JSON (implies --skip-launch)')
+  .option('--porcelain', 'Print the created worktree in a stable line format (implies --skip-launch)')
   .action(async (branchName: string, options) => {
     await newCommand(branchName, {
       install: options.install,
+      installStrategy: options.installStrategy,
       skipLaunch: options.skipLaunch,
-      push: options.push
+      push: options.push,
+      tool: options.tool,
+      from: options.from,
+      fresh: options.fresh,
+      remote: options.remote,
+      note: options.note,
+      prompt: options.prompt,
+      promptFile: options.promptFile,
+      json: options.json,
+      porcelain: options.porcelain
+    });
+  });
+
+program
+  .command('pr <number-or-branch>')
+  .description('Check out a pull request (or remote branch) into a worktree for review')
+  .option('-r, --remote <remote>', 'Remote to fetch from (default: pr.remote, baseRemote or origin)')
+  .option('-i, --install', 'Install dependencies of the detected projects after creating worktree')
+  .option('--no-install', 'Skip installing dependencies even if enabled in config')
+  .option('--install-strategy <strategy>', 'How to install: install, clone or symlink the main worktree\'s node_modules (implies --install)')
+  .option('-s, --skip-launch', 'Create worktree without launching AI assistant')
+  .option('-t, --tool <tool>', 'AI assistant to launch without prompting')
+  .option('--no-review', 'Launch the AI assistant without a review task')
+  .action(async (input: string, options) => {
+    await prCommand(input, {
+      remote: options.remote,
+      install: options.install,
+      installStrategy: options.installStrategy,
+      skipLaunch: options.skipLaunch,
+      tool: options.tool,
+      review: options.review
+    });
+  });
+
+program
+  .command('spawn <base-name>')
+  .description('Create worktrees <base-name>-1..n from one start point and run an AI agent in each')
+  .option('-n, --count <n>', 'Number of worktrees (default: 3)')
+  .option('-t, --tool <tool>', 'AI assistant to run in each worktree (default: defaultTool)')
+  .option('--prompt <text>', 'Task given to every agent')
+  .option('--prompt-file <file>', 'Read the task from a file')
+  .option('-f, --from <ref>', 'Branch, tag or commit to fork from (default: HEAD)')
+  .option('--fresh', 'Fork from the freshly fetched default branch')
+  .option('--no-fresh', 'Fork from HEAD even if fresh is enabled in config')
+  .option('-r, --remote <remote>', 'Remote to fetch the default branch from (default: baseRemote or origin)')
+  .option('-i, --install', 'Install dependencies once and reuse them in the other worktrees')
+  .option('--no-install', 'Skip installing dependencies even if enabled in config')
+  .option('--install-strategy <strategy>', 'How the first worktree gets node_modules: install, clone or symlink (implies --install)')
+  .option('-s, --skip-launch', 'Create the worktrees without running agents')
+  .action(async (baseName: string, options) => {
+    await spawnCommand(baseName, {
+      count: options.count,
+      tool: options.tool,
+      prompt: options.prompt,
+      promptFile: options.promptFile,
+      from: options.from,
+      fresh: options.fresh,
+      remote: options.remote,
+      install: options.install,
+      installStrategy: options.installStrategy,
+      skipLaunch: options.skipLaunch
+    });
+  });
+
+program
+  .command('compare <group>')
+  .description('Compare the changes of the worktrees created by wt spawn')
+  .option('--json', 'Print the comparison as JSON')
+  .option('--porcelain', 'Print the comparison in a stable line format for scripts')
+  .action(async (group: string, options) => {
+    await compareCommand(group, {
+      json: options.json,
+      porcelain: options.porcelain
     });
   });
 
@@ -36,26 +130,139 @@ program
   .command('list')
   .alias('ls')
   .description('List all worktrees for the current repository')
-  .action(async () => {
-    await listCommand();
+  .option('-r, --remote <remote>', 'Remote to check branches and merges against (default: pushRemote/baseRemote or origin)')
+  .option('-g, --group <group>', 'Only list the worktrees of a wt spawn group')
+  .option('--json', 'Print worktrees as JSON')
+  .option('--porcelain', 'Print worktrees in a stable line format for scripts')
+  .action(async (options) => {
+    await listCommand({
+      remote: options.remote,
+      group: options.group,
+      json: options.json,
+      porcelain: options.porcelain
+    });
   });
 
 program
   .command('clean')
   .description('Remove worktrees for merged or deleted branches')
-  .action(async () => {
-    await cleanCommand();
+  .option('-n, --dry-run', 'Show what would be removed without removing anything')
+  .option('-y, --yes', 'Remove without prompting (merged worktrees only, unless --include-local-only)')
+  .option('-f, --force', 'With --yes, also remove worktrees that have uncommitted changes or a running AI tool')
+  .option('--merged-only', 'Only consider worktrees whose branch was merged')
+  .option('--include-local-only', 'Also consider worktrees whose branch only exists locally')
+  .option('--older-than <duration>', 'Only consider worktrees whose last commit is older than this (e.g. 14d, 12h, 2w)')
+  .option('-r, --remote <remote>', 'Remote to check branches and merges against (default: pushRemote/baseRemote or origin)')
+  .option('-g, --group <group>', 'Remove the worktrees of a wt spawn group, merged or not')
+  .option('--json', 'Print results as JSON (requires --dry-run or --yes)')
+  .option('--porcelain', 'Print results in a stable line format (requires --dry-run or --yes)')
+  .action(async (options) => {
+    await cleanCommand({
+      dryRun: options.dryRun,
+      yes: options.yes,
+      force: options.force,
+      mergedOnly: options.mergedOnly,
+      includeLocalOnly: options.includeLocalOnly,
+      olderThan: options.olderThan,
+      remote: options.remote,
+      group: options.group,
+      json: options.json,
+      porcelain: options.porcelain
+    });
   });
 
 program
   .command('remove <name>')
   .alias('rm')
   .description('Remove a specific worktree')
-  .option('-f, --force', 'Force removal even if there are uncommitted changes')
+  .option('-f, --force', 'Force removal even if there are uncommitted changes or a running AI tool (which is stopped)')
   .action(async (name: string, options) => {
     await removeCommand(name, {
       force: options.force
     });
   });
 
-program.parse();
+program
+  .command('ps')
+  .description('List the AI tools running in worktrees')
+  .option('--json', 'Print sessions as JSON')
+  .option('--porcelain', 'Print sessions in a stable line format for scripts')
+  .action(async (options) => {
+    await psCommand({
+      json: options.json,
+      porcelain: options.porcelain
+    });
+  });
+
+program
+  .command('kill <name>')
+  .description('Stop the AI tools running in a worktree')
+  .option('--pid <pid>', 'Only stop the session with this pid')
+  .action(async (name: string, options) => {
+    await killCommand(name, {
+      pid: options.pid
+    });
+  });
+
+program
+  .command('cd <name>')
+  .description('Change into a worktree (needs shell integration, see wt shell-init)')
+  .action(async (name: string) => {
+    await cdCommand(name);
+  });
+
+program
+  .command('shell-init <shell>')
+  .description('Print the shell integration for bash, zsh or fish')
+  .action(async (shell: string) => {
+    await shellInitCommand(shell);
+  });
+
+program
+  .command('completion <shell>')
+  .description('Print the completion script for bash, zsh or fish')
+  .action(async (shell: string) => {
+    await completionCommand(shell);
+  });
+
+program
+  .command('__complete', { hidden: true })
+  .argument('[words...]')
+  .allowUnknownOption()
+  .action(async (words: string[]) => {
+    await completeCommand(program, words);
+  });
+
+const config = program
+  .command('config')
+  .description('Inspect and edit wt configuration (.wtrc.json and ~/.config/wt/config.json)');
+
+config
+  .command('get <key>')
+  .description('Print the effective value of a config key')
+  .option('-g, --global', 'Read from the global config only')
+  .action(async (key: string, options) => {
+    await configGetCommand(key, { global: options.global });
+  });
+
+config
+  .command('set <key> <value>')
+  .description('Set a config key in the repo config (.wtrc.json)')
+  .option('-g, --global', 'Write to the global config instead')
+  .action(async (key: string, value: string, options) => {
+    await configSetCommand(key, value, { global: options.global });
+  });
+
+config
+  .command('list')
+  .alias('ls')
+  .description('List the effective configuration and where each value comes from')
+  .option('-g, --global', 'Show the global config only')
+  .action(async (options) => {
+    await configListCommand({ global: options.global });
+  });
+
+program.parseAsync().catch((error: Error) => {
+  console.error(chalk.red(`Error: ${error.message}`));
+  process.exit(1);
+});
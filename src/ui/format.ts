@@ -0,0 +1,81 @@
+import type { WorktreeStatus } from '../utils/git.js';
+import type { WorktreeMetadata } from '../utils/metadata.js';
+
+/**
+ * Format a unix timestamp (seconds) as a relative age, e.g. "3h ago"
+ */
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.floor(now / 1000 - timestamp));
+
+  if (seconds < 60) return 'just now';
+  const units: [number, string][] = [
+    [60 * 60 * 24 * 365, 'y'],
+    [60 * 60 * 24 * 30, 'mo'],
+    [60 * 60 * 24 * 7, 'w'],
+    [60 * 60 * 24, 'd'],
+    [60 * 60, 'h'],
+    [60, 'm']
+  ];
+
+  for (const [size, unit] of units) {
+    if (seconds >= size) return `${Math.floor(seconds / size)}${unit} ago`;
+  }
+  return 'just now';
+}
+
+/**
+ * Format uncommitted changes, e.g. "~2 ?1" (2 modified, 1 untracked) or "clean"
+ */
+export function formatChanges(status: WorktreeStatus): string {
+  const parts: string[] = [];
+  if (status.modified > 0) parts.push(`~${status.modified}`);
+  if (status.untracked > 0) parts.push(`?${status.untracked}`);
+  return parts.length > 0 ? parts.join(' ') : 'clean';
+}
+
+/**
+ * Format ahead/behind counts versus the upstream, e.g. "↑2 ↓1" (empty if no upstream)
+ */
+export function formatUpstreamSync(status: WorktreeStatus): string {
+  if (!status.upstream || status.ahead === undefined || status.behind === undefined) return '';
+  return `↑${status.ahead} ↓${status.behind}`;
+}
+
+/**
+ * Format ahead/behind counts versus the default branch, e.g. "+5 -2 main" (empty if unknown)
+ */
+export function formatBaseSync(status: WorktreeStatus): string {
+  if (!status.baseBranch || status.aheadOfBase === undefined || status.behindBase === undefined) return '';
+  return `+${status.aheadOfBase} -${status.behindBase} ${status.baseBranch}`;
+}
+
+/**
+ * Check whether a worktree has uncommitted or untracked files
+ */
+export function isDirty(status: WorktreeStatus): boolean {
+  return status.modified > 0 || status.untracked > 0;
+}
+
+/**
+ * Format the last recorded tool launch, e.g. "claude 2h ago" (empty if none)
+ */
+export function formatLaunch(metadata: WorktreeMetadata, now: number = Date.now()): string {
+  if (!metadata.tool || !metadata.launchedAt) return '';
+  return `${metadata.tool} ${formatAge(Date.parse(metadata.launchedAt) / 1000, now)}`;
+}
+
+/**
+ * Shorten a string to a maximum length, ending it with "…"
+ */
+export function truncate(str: string, maxLength: number): string {
+  return str.length > maxLength ? str.slice(0, maxLength - 1) + '…' : str;
+}
+
+/**
+ * Pad a string to a column width, ignoring chalk color codes
+ */
+export function padEnd(str: string, length: number): string {
+  const visibleLength = str.replace(/\x1B\[[0-9;]*m/g, '').length;
+  const padding = Math.max(0, length - visibleLength);
+  return str + ' '.repeat(padding);
+}
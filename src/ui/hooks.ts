@@ -0,0 +1,60 @@
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import {
+  runHooks,
+  getHookLabel,
+  HookContext,
+  HookEvent
+} from '../utils/hooks.js';
+import type { WtConfig } from '../utils/config.js';
+
+const OUTPUT_TAIL_LINES = 20;
+
+/**
+ * Run the hooks for an event, streaming each hook's latest output line under a spinner.
+ * Returns false if a hook with onError 'fail' failed.
+ */
+export async function runHooksWithSpinner(
+  config: Pick<WtConfig, 'hooks'>,
+  event: HookEvent,
+  context: HookContext
+): Promise<boolean> {
+  let spinner: Ora | undefined;
+  let label = '';
+  let output: string[] = [];
+
+  const printTail = () => {
+    for (const line of output.slice(-OUTPUT_TAIL_LINES)) {
+      console.error(chalk.dim(`  ${line}`));
+    }
+  };
+
+  try {
+    await runHooks(config, event, context, {
+      onStart: (hook) => {
+        label = `${event}: ${getHookLabel(hook)}`;
+        output = [];
+        spinner = ora(label).start();
+      },
+      onOutput: (_hook, line) => {
+        output.push(line);
+        const width = Math.max(20, (process.stdout.columns || 80) - 6);
+        spinner!.text = `${label}\n  ${chalk.dim(line.slice(0, width))}`;
+      },
+      onSuccess: () => {
+        spinner!.succeed(chalk.green(label));
+      },
+      onWarn: (_hook, error) => {
+        spinner!.warn(chalk.yellow(`${label} (${error.message})`));
+        printTail();
+      },
+      onFail: (_hook, error) => {
+        spinner!.fail(chalk.red(`${label} (${error.message})`));
+        printTail();
+      }
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,38 +1,25 @@
 import inquirer from 'inquirer';
-import type { AITool } from '../utils/launcher.js';
-
-export interface AIToolChoice {
-  name: string;
-  value: AITool;
-  description: string;
-}
-
-const AI_TOOLS: AIToolChoice[] = [
-  {
-    name: 'Claude Code',
-    value: 'claude',
-    description: 'Anthropic\'s Claude coding assistant'
-  },
-  {
-    name: 'Codex',
-    value: 'codex',
-    description: 'OpenAI\'s Codex coding assistant'
-  }
-];
+import { isToolAvailable } from '../utils/launcher.js';
+import type { ToolDefinition } from '../utils/tools.js';
 
 /**
  * Show interactive selector for AI coding assistant
+ * Tools that aren't installed are listed but disabled.
  */
-export async function selectAITool(): Promise<AITool> {
-  const { tool } = await inquirer.prompt<{ tool: AITool }>([
+export async function selectAITool(tools: ToolDefinition[]): Promise<ToolDefinition> {
+  const availability = await Promise.all(tools.map(t => isToolAvailable(t)));
+  const anyAvailable = availability.some(Boolean);
+
+  const { tool } = await inquirer.prompt<{ tool: ToolDefinition }>([
     {
       type: 'list',
       name: 'tool',
       message: 'Select AI coding assistant:',
-      choices: AI_TOOLS.map(t => ({
-        name: `${t.name} - ${t.description}`,
-        value: t.value,
-        short: t.name
+      choices: tools.map((t, i) => ({
+        name: t.description ? `${t.name} - ${t.description}` : t.name,
+        value: t,
+        short: t.name,
+        disabled: anyAvailable && !availability[i] ? 'not installed' : false
       }))
     }
   ]);
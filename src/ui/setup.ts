@@ -0,0 +1,310 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import { copyEnvFiles } from '../utils/env.js';
+import { allocatePorts, formatPorts, PortAllocation } from '../utils/ports.js';
+import { getTools, getTool, acceptsPrompt, ToolDefinition } from '../utils/tools.js';
+import { launchAITool, isToolAvailable } from '../utils/launcher.js';
+import { getDetectors, detectProjects, formatStep, runStep, BootstrapStep } from '../utils/projects.js';
+import {
+  parseInstallStrategy,
+  lockfilesMatch,
+  reuseNodeModules,
+  recordInstall,
+  InstallRecord,
+  InstallStrategy,
+  CloneMethod
+} from '../utils/deps.js';
+import { recordLaunch } from '../utils/metadata.js';
+import { recordSession } from '../utils/sessions.js';
+import { readPrompt, PromptOptions } from '../utils/prompt.js';
+import type { WtConfig } from '../utils/config.js';
+import type { OutputFormat } from '../utils/output.js';
+import type { HookContext } from '../utils/hooks.js';
+import { selectAITool } from './selector.js';
+import { runHooksWithSpinner } from './hooks.js';
+
+export interface PrepareWorktreeOptions extends HookContext {
+  config: WtConfig;
+  install: boolean;
+  installStrategy: InstallStrategy;
+  format: OutputFormat;
+  /** Command suggested when install is skipped, e.g. 'wt new --install' */
+  installHint: string;
+  /** Checkout whose node_modules are reused instead of the main worktree's */
+  dependencySource?: string;
+}
+
+export interface PrepareWorktreeResult {
+  copied: string[];
+  linked: string[];
+  conflicts: string[];
+  allocation: PortAllocation | null;
+  /** How dependencies were set up (null if nothing was installed) */
+  install: InstallRecord | null;
+  /** false if a postCreate hook with onError 'fail' failed */
+  hooksPassed: boolean;
+}
+
+export interface LaunchFlags extends PromptOptions {
+  install?: boolean;
+  installStrategy?: string;
+  tool?: string;
+  skipLaunch?: boolean;
+}
+
+export interface LaunchSettings {
+  install: boolean;
+  installStrategy: InstallStrategy;
+  /** Tool given with --tool or configured as defaultTool */
+  tool?: ToolDefinition;
+  /** Task from --prompt or --prompt-file */
+  prompt?: string;
+}
+
+export interface LaunchInWorktreeOptions extends HookContext {
+  config: WtConfig;
+  /** Tool to launch; the user is asked to pick one when omitted */
+  tool?: ToolDefinition;
+  /** Initial task for the tool */
+  prompt?: string;
+}
+
+/**
+ * Set up a freshly created worktree: copy env files, allocate ports,
+ * install dependencies and run the postCreate hooks.
+ */
+export async function prepareWorktree(options: PrepareWorktreeOptions): Promise<PrepareWorktreeResult> {
+  const { config, worktreePath, format } = options;
+  const log = format === 'text' ? console.log : console.error;
+  const result: PrepareWorktreeResult = {
+    copied: [],
+    linked: [],
+    conflicts: [],
+    allocation: null,
+    install: null,
+    hooksPassed: true
+  };
+
+  // Copy .env files (and anything else matching the copy rules)
+  const envSpinner = ora('Copying env files...').start();
+
+  try {
+    const copy = await copyEnvFiles(options.mainRepoPath, worktreePath, {
+      include: config.copyFiles,
+      exclude: config.copyExclude
+    });
+
+    result.copied = copy.copied;
+    result.linked = copy.linked;
+    result.conflicts = copy.conflicts;
+
+    if (copy.copied.length > 0 || copy.linked.length > 0) {
+      const summary = [
+        copy.copied.length > 0 ? `Copied ${copy.copied.length} file(s): ${copy.copied.join(', ')}` : '',
+        copy.linked.length > 0 ? `Linked ${copy.linked.length} file(s): ${copy.linked.join(', ')}` : ''
+      ].filter(Boolean).join('; ');
+      envSpinner.succeed(chalk.green(summary));
+    } else if (copy.conflicts.length === 0 && copy.errors.length === 0) {
+      envSpinner.info(chalk.yellow(copy.skipped.length > 0 ? 'Env files already present' : 'No .env files found to copy'));
+    } else {
+      envSpinner.warn(chalk.yellow('No files copied'));
+    }
+
+    for (const { file, reason } of copy.skipped) {
+      log(chalk.dim(`  Skipped ${file} (${reason})`));
+    }
+    for (const file of copy.conflicts) {
+      log(chalk.yellow(`  Conflict: ${file} already exists in the worktree, left unchanged`));
+    }
+    for (const { file, message } of copy.errors) {
+      log(chalk.yellow(`  Could not copy ${file}: ${message}`));
+    }
+  } catch (error: any) {
+    envSpinner.warn(chalk.yellow(`Warning: Could not copy env files: ${error.message}`));
+  }
+
+  // Give the worktree its own ports in the copied env files
+  if (config.ports?.keys?.length && result.copied.length > 0) {
+    const portSpinner = ora('Allocating ports...').start();
+    try {
+      result.allocation = await allocatePorts(worktreePath, result.copied, config.ports);
+      if (result.allocation) {
+        portSpinner.succeed(chalk.green(`Allocated ports: ${formatPorts(result.allocation)}`));
+      } else {
+        portSpinner.info(chalk.dim('No configured port keys found in env files'));
+      }
+    } catch (error: any) {
+      portSpinner.warn(chalk.yellow(`Could not allocate ports: ${error.message}`));
+    }
+  }
+
+  // Optionally install the dependencies of every detected project
+  const steps = await detectProjects(worktreePath, getDetectors(config));
+  if (options.install) {
+    if (steps.length > 0) {
+      result.install = await installDependencies(options, steps);
+    }
+  } else if (steps.length > 0) {
+    const commands = steps.map(formatStep).join(', ');
+    log(chalk.dim(`\nTip: Dependencies were not installed (${commands}). Use '${options.installHint}' next time`));
+  }
+
+  // Run post-create hooks
+  result.hooksPassed = await runHooksWithSpinner(config, 'postCreate', options);
+  return result;
+}
+
+/**
+ * Run the bootstrap steps in order, reusing an existing checkout's node_modules in
+ * place of the Node steps when the strategy allows it. Returns null if nothing
+ * could be set up.
+ */
+async function installDependencies(
+  options: PrepareWorktreeOptions,
+  steps: BootstrapStep[]
+): Promise<InstallRecord | null> {
+  const { worktreePath, installStrategy: requested, format } = options;
+  const log = format === 'text' ? console.log : console.error;
+  const source = options.dependencySource ?? options.mainRepoPath;
+  const sourceLabel = options.dependencySource ? path.basename(source) : 'main worktree';
+  const nodeSteps = steps.filter(step => step.group === 'node');
+  let pending = steps;
+  let reused: { directories: string[]; method?: CloneMethod } | undefined;
+  let reason: string | undefined;
+
+  if (requested !== 'install' && nodeSteps.length > 0) {
+    const matches = await Promise.all(
+      nodeSteps.map(step => lockfilesMatch(source, worktreePath, path.join(step.dir, step.file)))
+    );
+
+    if (matches.includes(false)) {
+      reason = `lockfile differs from ${sourceLabel}`;
+    } else {
+      const [verb, done] = requested === 'clone' ? ['Cloning', 'Cloned'] : ['Linking', 'Linked'];
+      const spinner = ora(`${verb} node_modules from ${sourceLabel}...`).start();
+      try {
+        const reuse = await reuseNodeModules(source, worktreePath, requested);
+        if (reuse.directories.length > 0) {
+          const how = reuse.method ? ` (${reuse.method})` : '';
+          spinner.succeed(chalk.green(`${done} ${reuse.directories.join(', ')}${how}`));
+          reused = reuse;
+          pending = steps.filter(step => step.group !== 'node');
+        } else {
+          spinner.info(chalk.dim(`No node_modules in ${sourceLabel}`));
+          reason = `no node_modules in ${sourceLabel}`;
+        }
+      } catch (error: any) {
+        spinner.warn(chalk.yellow(`Could not reuse node_modules: ${error.message}`));
+        reason = error.message;
+      }
+    }
+
+    if (!reused) {
+      log(chalk.dim(`Falling back to ${nodeSteps.map(formatStep).join(', ')} (${reason})`));
+    }
+  }
+
+  const completed: string[] = [];
+  const failed: string[] = [];
+
+  for (const [index, step] of pending.entries()) {
+    const label = formatStep(step);
+    const counter = pending.length > 1 ? `[${index + 1}/${pending.length}] ` : '';
+    const spinner = ora(`${counter}Running ${label}...`).start();
+
+    try {
+      await runStep(worktreePath, step, format === 'text' ? 'inherit' : ['inherit', 2, 2]);
+      spinner.succeed(chalk.green(`${counter}${label} completed`));
+      completed.push(label);
+    } catch (error: any) {
+      spinner.fail(chalk.red(`${counter}${label} failed: ${error.message}`));
+      failed.push(label);
+    }
+  }
+
+  if (!reused && completed.length === 0) return null;
+
+  return recordInstall(worktreePath, {
+    strategy: reused ? requested : 'install',
+    requested,
+    method: reused?.method,
+    directories: reused?.directories,
+    reason,
+    steps: completed,
+    failed: failed.length > 0 ? failed : undefined
+  });
+}
+
+/**
+ * Resolve the install, tool and task flags of the commands that create worktrees.
+ * Command line flags take precedence over config. Throws on an invalid value.
+ */
+export async function resolveLaunchOptions(config: WtConfig, options: LaunchFlags): Promise<LaunchSettings> {
+  // Choosing a strategy implies installing unless --no-install is given
+  const install = options.install ?? (options.installStrategy ? true : config.install);
+  const installStrategy = parseInstallStrategy(options.installStrategy ?? config.installStrategy);
+
+  // Resolve the tool up front so a typo doesn't leave a half-set-up worktree
+  const toolId = options.tool || config.defaultTool;
+  const tool = toolId ? getTool(config, toolId) : undefined;
+  if (toolId && !tool && !options.skipLaunch) {
+    throw new Error(`Unknown AI tool: ${toolId} (available: ${getTools(config).map(t => t.id).join(', ')})`);
+  }
+
+  const prompt = await readPrompt(options);
+  return { install, installStrategy, tool, prompt };
+}
+
+/**
+ * Pick (if needed), check and launch an AI tool in a worktree after its preLaunch hooks.
+ * Returns false if the tool is missing, a hook failed or the tool couldn't be started.
+ */
+export async function launchInWorktree(options: LaunchInWorktreeOptions): Promise<boolean> {
+  const { config, worktreePath } = options;
+
+  // Show AI tool selector (unless a tool was given or configured)
+  let tool = options.tool;
+  if (!tool) {
+    console.log(''); // Empty line for spacing
+    tool = await selectAITool(getTools(config));
+  }
+
+  // Check if tool is available
+  if (!await isToolAvailable(tool)) {
+    console.error(chalk.red(`\nError: ${tool.command} is not installed or not in PATH`));
+    console.log(chalk.dim(`Worktree is ready at: ${worktreePath}`));
+    console.log(chalk.dim(`You can manually launch your AI tool there.`));
+    return false;
+  }
+
+  // Run pre-launch hooks
+  if (!await runHooksWithSpinner(config, 'preLaunch', options)) {
+    console.log(chalk.dim(`\nWorktree is ready at: ${worktreePath}`));
+    return false;
+  }
+
+  // Launch the selected tool
+  console.log(chalk.cyan(`\nLaunching ${tool.name} in worktree...`));
+  if (options.prompt && !acceptsPrompt(tool)) {
+    console.log(chalk.yellow(`${tool.name} can't be started with a task; it is saved in the worktree's metadata`));
+  }
+
+  let child;
+  try {
+    child = await launchAITool({
+      cwd: worktreePath,
+      tool,
+      prompt: options.prompt
+    });
+  } catch (error: any) {
+    console.error(chalk.red(`\nError: ${error.message}`));
+    console.log(chalk.dim(`Worktree is ready at: ${worktreePath}`));
+    return false;
+  }
+  await recordLaunch(worktreePath, tool.id);
+  await recordSession(worktreePath, tool, child);
+
+  console.log(chalk.green(`\n✓ ${tool.name} launched in: ${worktreePath}`));
+  return true;
+}
@@ -0,0 +1,218 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import type { Command, Option } from 'commander';
+import { getGitRoot, listWorktrees } from './git.js';
+import { loadConfig, getConfigKeys } from './config.js';
+import { getTools } from './tools.js';
+import { SHELLS, Shell } from './shell.js';
+import { INSTALL_STRATEGIES } from './deps.js';
+import { getAllMetadata } from './metadata.js';
+
+const execFileAsync = promisify(execFile);
+
+type CompletionSource = 'worktrees' | 'branches' | 'branch-names' | 'remotes' | 'tools' | 'config-keys' | 'shells' | 'install-strategies' | 'groups';
+
+/**
+ * Dynamic values for arguments and options, keyed by command path and then
+ * argument name or long option (e.g. "config get" -> "key").
+ */
+const COMPLETION_SOURCES: Record<string, Record<string, CompletionSource>> = {
+  'new': {
+    'branch-name': 'branch-names',
+    '--from': 'branches',
+    '--tool': 'tools',
+    '--remote': 'remotes',
+    '--install-strategy': 'install-strategies'
+  },
+  'pr': {
+    'number-or-branch': 'branch-names',
+    '--remote': 'remotes',
+    '--tool': 'tools',
+    '--install-strategy': 'install-strategies'
+  },
+  'spawn': {
+    '--tool': 'tools',
+    '--from': 'branches',
+    '--remote': 'remotes',
+    '--install-strategy': 'install-strategies'
+  },
+  'compare': { 'group': 'groups' },
+  'list': { '--remote': 'remotes', '--group': 'groups' },
+  'clean': { '--remote': 'remotes', '--group': 'groups' },
+  'remove': { 'name': 'worktrees' },
+  'kill': { 'name': 'worktrees' },
+  'cd': { 'name': 'worktrees' },
+  'shell-init': { 'shell': 'shells' },
+  'completion': { 'shell': 'shells' },
+  'config get': { 'key': 'config-keys' },
+  'config set': { 'key': 'config-keys' }
+};
+
+// The wrappers call `command wt` so the shell integration's function isn't involved
+const BASH_COMPLETION = `# wt completion for bash
+_wt_completion() {
+  local IFS=$'\\n'
+  local cur="\${COMP_WORDS[COMP_CWORD]}"
+  COMPREPLY=($(compgen -W "$(command wt __complete -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null)" -- "$cur"))
+}
+complete -F _wt_completion wt
+`;
+
+const ZSH_COMPLETION = `#compdef wt
+# wt completion for zsh
+_wt() {
+  local -a candidates
+  candidates=(\${(f)"$(command wt __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)"})
+  compadd -a candidates
+}
+compdef _wt wt
+`;
+
+const FISH_COMPLETION = `# wt completion for fish
+function __wt_complete
+    set -l tokens (commandline -opc)
+    set -e tokens[1]
+    command wt __complete -- $tokens (commandline -ct) 2>/dev/null
+end
+complete -c wt -f -a '(__wt_complete)'
+`;
+
+/**
+ * Get the completion script for a shell
+ */
+export function getCompletionScript(shell: Shell): string {
+  switch (shell) {
+    case 'bash': return BASH_COMPLETION;
+    case 'zsh': return ZSH_COMPLETION;
+    case 'fish': return FISH_COMPLETION;
+  }
+}
+
+/**
+ * Complete the last word of a command line.
+ * @param words - Words after "wt", the last one being the (possibly empty) word to complete
+ */
+export async function getCompletions(program: Command, words: string[]): Promise<string[]> {
+  const current = words.length > 0 ? words[words.length - 1] : '';
+  const previous = words.slice(0, -1);
+
+  let command = program;
+  const commandPath: string[] = [];
+  let positionals = 0;
+  let pendingOption: Option | undefined;
+  let afterSeparator = false;
+
+  // Walk the typed words to find the command, the argument position and any option awaiting a value
+  for (const word of previous) {
+    if (pendingOption) {
+      pendingOption = undefined;
+    } else if (word === '--') {
+      afterSeparator = true;
+    } else if (word.startsWith('-') && !afterSeparator) {
+      const option = findOption(command, word);
+      if (option && (option.required || option.optional) && !word.includes('=')) {
+        pendingOption = option;
+      }
+    } else {
+      const subcommand = positionals === 0 ? findSubcommand(command, word) : undefined;
+      if (subcommand) {
+        command = subcommand;
+        commandPath.push(subcommand.name());
+      } else {
+        positionals++;
+      }
+    }
+  }
+
+  const sources = COMPLETION_SOURCES[commandPath.join(' ')] ?? {};
+  let candidates: string[] = [];
+
+  if (pendingOption) {
+    const source = pendingOption.long ? sources[pendingOption.long] : undefined;
+    candidates = source ? await getSourceValues(source) : [];
+  } else if (current.startsWith('-') && !afterSeparator) {
+    candidates = command.options
+      .filter(option => !option.hidden)
+      .flatMap(option => [option.long, option.short].filter((flag): flag is string => !!flag));
+    candidates.push('--help');
+  } else {
+    if (positionals === 0) {
+      // Internal commands like __complete are hidden
+      candidates = command.commands
+        .filter(sub => !sub.name().startsWith('__'))
+        .flatMap(sub => [sub.name(), ...sub.aliases()]);
+    }
+
+    const argument = command.registeredArguments[Math.min(positionals, command.registeredArguments.length - 1)];
+    const source = argument && (positionals < command.registeredArguments.length || argument.variadic)
+      ? sources[argument.name()]
+      : undefined;
+    if (source) {
+      candidates.push(...await getSourceValues(source));
+    }
+  }
+
+  return [...new Set(candidates)].filter(candidate => candidate.startsWith(current));
+}
+
+function findSubcommand(command: Command, name: string): Command | undefined {
+  return command.commands.find(sub => sub.name() === name || sub.aliases().includes(name));
+}
+
+function findOption(command: Command, word: string): Option | undefined {
+  const flag = word.split('=')[0];
+  return command.options.find(option => option.long === flag || option.short === flag);
+}
+
+/**
+ * Look up dynamic values. Completion must never fail, so errors yield nothing.
+ */
+async function getSourceValues(source: CompletionSource): Promise<string[]> {
+  try {
+    switch (source) {
+      case 'worktrees': {
+        const worktrees = await listWorktrees();
+        return worktrees.flatMap(wt => [wt.branch, path.basename(wt.path)].filter((name): name is string => !!name));
+      }
+      case 'branches': {
+        const { stdout } = await execFileAsync('git', [
+          'for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes'
+        ]);
+        // refs/remotes/origin/HEAD shortens to "origin" or "origin/HEAD" depending on the git version
+        const remotes = await getSourceValues('remotes');
+        return stdout.split('\n').filter(ref => ref && !remotes.includes(ref) && !ref.endsWith('/HEAD'));
+      }
+      case 'branch-names': {
+        // Remote branches without the remote, as accepted by `wt new` and `wt pr`
+        const remotes = await getSourceValues('remotes');
+        const branches = await getSourceValues('branches');
+        return branches.map(ref => {
+          const remote = remotes.find(name => ref.startsWith(`${name}/`));
+          return remote ? ref.slice(remote.length + 1) : ref;
+        });
+      }
+      case 'remotes': {
+        const { stdout } = await execFileAsync('git', ['remote']);
+        return stdout.split('\n').filter(Boolean);
+      }
+      case 'tools': {
+        const config = await loadConfig(await getGitRoot().catch(() => process.cwd()));
+        return getTools(config).map(tool => tool.id);
+      }
+      case 'config-keys':
+        return getConfigKeys();
+      case 'shells':
+        return SHELLS;
+      case 'install-strategies':
+        return INSTALL_STRATEGIES;
+      case 'groups': {
+        const metadata = await getAllMetadata();
+        const groups = Object.values(metadata).map(entry => entry.group).filter((group): group is string => !!group);
+        return [...new Set(groups)];
+      }
+    }
+  } catch {
+    return [];
+  }
+}
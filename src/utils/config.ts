@@ -0,0 +1,291 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { ToolConfig } from './tools.js';
+import type { HooksConfig } from './hooks.js';
+import { DEFAULT_COPY_INCLUDE, DEFAULT_COPY_EXCLUDE, CopyRuleEntry } from './env.js';
+import type { PortsConfig } from './ports.js';
+import type { InstallStrategy } from './deps.js';
+import type { DetectorConfig } from './projects.js';
+
+export interface WtConfig {
+  /** Worktree location relative to the main repo; supports {repo} and {branch} */
+  worktreePath: string;
+  /** AI tool to launch without prompting */
+  defaultTool?: string;
+  /** Install dependencies of the detected projects after creating a worktree */
+  install: boolean;
+  /** How install sets up dependencies: install, clone or symlink the main worktree's node_modules */
+  installStrategy: InstallStrategy;
+  /** Custom project detectors, or overrides of built-in ones, keyed by detector id */
+  detectors?: Record<string, DetectorConfig>;
+  /** Push new branches to remote after creating a worktree */
+  push: boolean;
+  /** Glob patterns or { pattern, mode } rules of files copied or symlinked into new worktrees */
+  copyFiles: CopyRuleEntry[];
+  /** Glob patterns never copied, even if they match copyFiles */
+  copyExclude: string[];
+  /** Fork new branches from the freshly fetched default branch instead of HEAD */
+  fresh: boolean;
+  /** Remote new branches are pushed to (default: origin) */
+  pushRemote?: string;
+  /** Remote holding the default branch that merges are checked against (default: origin) */
+  baseRemote?: string;
+  /** Branch used for merge checks instead of the detected default branch */
+  defaultBranch?: string;
+  /** Custom AI tools, or overrides of built-in tools, keyed by tool id */
+  tools?: Record<string, ToolConfig>;
+  /** Where the TUI launches tools: tmux, zellij or auto (default: in place of the TUI) */
+  multiplexer?: string;
+  /** Shell commands run at points in the worktree lifecycle */
+  hooks?: HooksConfig;
+  /** Env keys whose ports are shifted per worktree */
+  ports?: PortsConfig;
+  /** Policy for `wt clean` */
+  clean?: CleanPolicyConfig;
+  /** Where `wt pr` fetches pull requests from */
+  pr?: PullRequestConfig;
+}
+
+export interface CleanPolicyConfig {
+  /** Also treat branches that only exist locally as stale */
+  includeLocalOnly?: boolean;
+  /** Only clean worktrees whose last commit is older than this (e.g. "14d") */
+  olderThan?: string;
+  /** Remove worktrees with uncommitted changes when running with --yes */
+  force?: boolean;
+}
+
+export interface PullRequestConfig {
+  /** Remote to fetch pull requests from (default: baseRemote) */
+  remote?: string;
+  /** Ref holding a pull request's head; {number} is substituted (default: refs/pull/{number}/head) */
+  ref?: string;
+  /** Local review branch; {id} is the number or branch name (default: pr/{id}) */
+  branch?: string;
+  /** Task given to the AI tool; {target}, {branch} and {base} are substituted */
+  prompt?: string;
+}
+
+export type ConfigScope = 'global' | 'repo';
+
+export const REPO_CONFIG_FILE = '.wtrc.json';
+
+export const DEFAULT_CONFIG: WtConfig = {
+  worktreePath: '../{repo}-{branch}',
+  install: false,
+  installStrategy: 'install',
+  push: false,
+  fresh: false,
+  copyFiles: DEFAULT_COPY_INCLUDE,
+  copyExclude: DEFAULT_COPY_EXCLUDE
+};
+
+type ConfigValueType = 'string' | 'boolean' | 'string[]' | 'array' | 'object';
+
+const CONFIG_KEYS: Record<keyof WtConfig, ConfigValueType> = {
+  worktreePath: 'string',
+  defaultTool: 'string',
+  install: 'boolean',
+  installStrategy: 'string',
+  detectors: 'object',
+  push: 'boolean',
+  copyFiles: 'array',
+  copyExclude: 'string[]',
+  fresh: 'boolean',
+  pushRemote: 'string',
+  baseRemote: 'string',
+  defaultBranch: 'string',
+  tools: 'object',
+  multiplexer: 'string',
+  hooks: 'object',
+  ports: 'object',
+  clean: 'object',
+  pr: 'object'
+};
+
+/**
+ * Get the path of the global config file (~/.config/wt/config.json)
+ */
+export function getGlobalConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'wt', 'config.json');
+}
+
+/**
+ * Get the path of the per-repo config file
+ */
+export function getRepoConfigPath(mainRepoPath: string): string {
+  return path.join(mainRepoPath, REPO_CONFIG_FILE);
+}
+
+/**
+ * Get the config file path for a scope
+ */
+export function getConfigPath(scope: ConfigScope, mainRepoPath: string): string {
+  return scope === 'global' ? getGlobalConfigPath() : getRepoConfigPath(mainRepoPath);
+}
+
+/**
+ * Read a single config file (returns an empty object if it doesn't exist)
+ */
+export async function readConfigFile(filePath: string): Promise<Partial<WtConfig>> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error.message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid config in ${filePath}: expected an object`);
+  }
+
+  return parsed as Partial<WtConfig>;
+}
+
+/**
+ * Write a single config file, creating its directory if needed
+ */
+export async function writeConfigFile(filePath: string, config: Partial<WtConfig>): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(config, null, 2) + '\n');
+}
+
+/**
+ * Load the effective config: defaults, then global config, then per-repo config
+ */
+export async function loadConfig(mainRepoPath: string): Promise<WtConfig> {
+  const globalConfig = await readConfigFile(getGlobalConfigPath());
+  const repoConfig = await readConfigFile(getRepoConfigPath(mainRepoPath));
+
+  return {
+    ...DEFAULT_CONFIG,
+    ...globalConfig,
+    ...repoConfig,
+    // Merge per entry so a repo can add tools or hooks without hiding global ones
+    tools: { ...globalConfig.tools, ...repoConfig.tools },
+    hooks: { ...globalConfig.hooks, ...repoConfig.hooks }
+  };
+}
+
+export interface Remotes {
+  push: string;
+  base: string;
+}
+
+/**
+ * Resolve the push and base remotes; a --remote flag overrides both
+ */
+export function getRemotes(config: Pick<WtConfig, 'pushRemote' | 'baseRemote'>, override?: string): Remotes {
+  return {
+    push: override || config.pushRemote || 'origin',
+    base: override || config.baseRemote || 'origin'
+  };
+}
+
+/**
+ * Check whether a key is a known config key (nested keys like tools.aider.command are allowed)
+ */
+export function isConfigKey(key: string): boolean {
+  const [topLevel, ...rest] = key.split('.');
+  if (!Object.prototype.hasOwnProperty.call(CONFIG_KEYS, topLevel)) return false;
+  return rest.length === 0 || CONFIG_KEYS[topLevel as keyof WtConfig] === 'object';
+}
+
+/**
+ * List all known config keys
+ */
+export function getConfigKeys(): (keyof WtConfig)[] {
+  return Object.keys(CONFIG_KEYS) as (keyof WtConfig)[];
+}
+
+/**
+ * Parse a raw command line value into the type expected by a config key
+ */
+export function parseConfigValue(key: string, raw: string): unknown {
+  const type = key.includes('.') ? 'object' : CONFIG_KEYS[key as keyof WtConfig];
+
+  switch (type) {
+    case 'boolean':
+      if (raw === 'true') return true;
+      if (raw === 'false') return false;
+      throw new Error(`${key} must be true or false`);
+    case 'string[]':
+      if (raw.trim().startsWith('[')) {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed) || !parsed.every(v => typeof v === 'string')) {
+          throw new Error(`${key} must be an array of strings`);
+        }
+        return parsed;
+      }
+      return raw.split(',').map(v => v.trim()).filter(Boolean);
+    case 'array':
+      if (raw.trim().startsWith('[')) {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) throw new Error(`${key} must be an array`);
+        return parsed;
+      }
+      return raw.split(',').map(v => v.trim()).filter(Boolean);
+    case 'object':
+      // Nested values may be any JSON; fall back to a plain string
+      try {
+        return JSON.parse(raw);
+      } catch {
+        if (!key.includes('.')) throw new Error(`${key} must be a JSON object`);
+        return raw;
+      }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Read a (possibly nested) value from a config object
+ */
+export function getConfigValue(config: Partial<WtConfig>, key: string): unknown {
+  let value: unknown = config;
+  for (const part of key.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Return a copy of a config object with a (possibly nested) value set
+ */
+export function setConfigValue(config: Partial<WtConfig>, key: string, value: unknown): Partial<WtConfig> {
+  const result: Record<string, unknown> = { ...config };
+  const parts = key.split('.');
+  let target = result;
+
+  for (const part of parts.slice(0, -1)) {
+    const next = target[part];
+    const copy: Record<string, unknown> = typeof next === 'object' && next !== null && !Array.isArray(next)
+      ? { ...next as Record<string, unknown> }
+      : {};
+    target[part] = copy;
+    target = copy;
+  }
+
+  target[parts[parts.length - 1]] = value;
+  return result as Partial<WtConfig>;
+}
+
+/**
+ * Format a config value for display
+ */
+export function formatConfigValue(value: unknown): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
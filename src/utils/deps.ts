@@ -0,0 +1,238 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { readFile, readdir, mkdir, copyFile, link, symlink, readlink, realpath, lstat } from 'fs/promises';
+import { existsSync, constants } from 'fs';
+import path from 'path';
+import { readState, updateState } from './state.js';
+import { mapConcurrent } from './pool.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * How Node dependencies get into a new worktree:
+ * - install: run the package manager
+ * - clone: copy the main worktree's node_modules with reflinks (or hardlinks) if the lockfile is identical
+ * - symlink: link to the main worktree's node_modules if the lockfile is identical
+ * clone and symlink fall back to install when the lockfiles differ. Other ecosystems always install.
+ */
+export type InstallStrategy = 'install' | 'clone' | 'symlink';
+
+export const INSTALL_STRATEGIES: InstallStrategy[] = ['install', 'clone', 'symlink'];
+
+/** How files were cloned: copy-on-write, shared inodes or full copies */
+export type CloneMethod = 'reflink' | 'hardlink' | 'copy';
+
+export interface InstallRecord {
+  /** Strategy that was actually applied */
+  strategy: InstallStrategy;
+  /** Strategy that was asked for (differs when falling back to install) */
+  requested: InstallStrategy;
+  method?: CloneMethod;
+  /** node_modules directories reused from the main worktree, relative to the worktree */
+  directories?: string[];
+  /** Why the requested strategy wasn't used */
+  reason?: string;
+  /** Bootstrap steps that completed, e.g. "uv sync in services/api" */
+  steps?: string[];
+  /** Bootstrap steps that failed */
+  failed?: string[];
+  /** ISO timestamp */
+  at: string;
+}
+
+interface InstallRegistry {
+  worktrees: Record<string, InstallRecord>;
+}
+
+const STATE_NAME = 'installs';
+const CLONE_CONCURRENCY = 32;
+
+/** Errors meaning the filesystem can't reflink or hardlink across these paths */
+const UNSUPPORTED_CODES = ['ENOTSUP', 'EOPNOTSUPP', 'EXDEV', 'ENOSYS', 'EINVAL', 'EPERM', 'EMLINK'];
+
+/**
+ * Check if a string is a known install strategy
+ */
+export function isInstallStrategy(value: string): value is InstallStrategy {
+  return (INSTALL_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Validate an install strategy given on the command line or in config
+ */
+export function parseInstallStrategy(value: string): InstallStrategy {
+  if (!isInstallStrategy(value)) {
+    throw new Error(`Unknown install strategy: ${value} (expected ${INSTALL_STRATEGIES.join(', ')})`);
+  }
+  return value;
+}
+
+/**
+ * Check whether two checkouts have byte-identical lockfiles
+ */
+export async function lockfilesMatch(sourceDir: string, destDir: string, lockfile: string): Promise<boolean> {
+  try {
+    const [source, dest] = await Promise.all([
+      readFile(path.join(sourceDir, lockfile)),
+      readFile(path.join(destDir, lockfile))
+    ]);
+    return source.equals(dest);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the node_modules directories of the main worktree that belong to tracked
+ * packages (the root and any workspace packages), relative to the repo root.
+ */
+export async function findNodeModules(mainRepoPath: string): Promise<string[]> {
+  const { stdout } = await execFileAsync(
+    'git',
+    ['ls-files', '--', 'package.json', ':(glob)**/package.json'],
+    { cwd: mainRepoPath, maxBuffer: 64 * 1024 * 1024 }
+  );
+
+  const dirs = new Set(stdout.split('\n').filter(Boolean).map(file => path.dirname(file)));
+  return [...dirs]
+    .map(dir => path.join(dir, 'node_modules'))
+    .filter(dir => existsSync(path.join(mainRepoPath, dir)))
+    .sort();
+}
+
+/**
+ * Clone a directory tree, preferring reflinks, then hardlinks, then plain copies.
+ * Symlinks are recreated as is. Returns the method used for the files.
+ */
+export async function cloneDirectory(source: string, dest: string): Promise<CloneMethod> {
+  const files: string[] = [];
+
+  // Recreate the directory structure and symlinks first, collecting files to clone
+  const walk = async (relDir: string): Promise<void> => {
+    await mkdir(path.join(dest, relDir), { recursive: true });
+    const entries = await readdir(path.join(source, relDir), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const rel = path.join(relDir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(rel);
+      } else if (entry.isSymbolicLink()) {
+        await symlink(await readlink(path.join(source, rel)), path.join(dest, rel));
+      } else if (entry.isFile()) {
+        files.push(rel);
+      }
+    }
+  };
+  await walk('');
+
+  let method: CloneMethod = 'reflink';
+
+  const cloneFile = async (rel: string): Promise<void> => {
+    const from = path.join(source, rel);
+    const to = path.join(dest, rel);
+
+    if (method === 'reflink') {
+      try {
+        await copyFile(from, to, constants.COPYFILE_FICLONE_FORCE);
+        return;
+      } catch (error: any) {
+        if (!UNSUPPORTED_CODES.includes(error.code)) throw error;
+        method = 'hardlink';
+      }
+    }
+
+    if (method === 'hardlink') {
+      try {
+        await link(from, to);
+        return;
+      } catch (error: any) {
+        if (!UNSUPPORTED_CODES.includes(error.code)) throw error;
+        method = 'copy';
+      }
+    }
+
+    await copyFile(from, to);
+  };
+
+  // The first file settles the method before the rest run in parallel
+  if (files.length > 0) await cloneFile(files[0]);
+
+  await mapConcurrent(files.slice(1), CLONE_CONCURRENCY, cloneFile);
+
+  return method;
+}
+
+/**
+ * Reuse the node_modules of another checkout (usually the main worktree) in a new
+ * worktree by cloning or symlinking.
+ * Directories that already exist in the worktree are left alone.
+ */
+export async function reuseNodeModules(
+  sourcePath: string,
+  worktreePath: string,
+  strategy: 'clone' | 'symlink'
+): Promise<{ directories: string[]; method?: CloneMethod }> {
+  const directories: string[] = [];
+  let method: CloneMethod | undefined;
+
+  for (const dir of await findNodeModules(sourcePath)) {
+    const source = path.join(sourcePath, dir);
+    const dest = path.join(worktreePath, dir);
+    if (await lstat(dest).then(() => true, () => false)) continue;
+
+    if (strategy === 'symlink') {
+      await mkdir(path.dirname(dest), { recursive: true });
+      await symlink(source, dest, 'dir');
+    } else {
+      const used = await cloneDirectory(source, dest);
+      // Report the weakest method used across directories
+      const order: CloneMethod[] = ['reflink', 'hardlink', 'copy'];
+      if (!method || order.indexOf(used) > order.indexOf(method)) method = used;
+    }
+    directories.push(dir);
+  }
+
+  return { directories, method };
+}
+
+/**
+ * Record how dependencies were set up for a worktree
+ */
+export async function recordInstall(worktreePath: string, record: Omit<InstallRecord, 'at'>): Promise<InstallRecord> {
+  const key = await realpath(worktreePath);
+  const entry: InstallRecord = { ...record, at: new Date().toISOString() };
+
+  await updateState<InstallRegistry>(STATE_NAME, { worktrees: {} }, registry => {
+    registry.worktrees[key] = entry;
+  });
+  return entry;
+}
+
+/**
+ * Forget the install record of a removed worktree
+ */
+export async function forgetInstall(worktreePath: string): Promise<void> {
+  await updateState<InstallRegistry>(STATE_NAME, { worktrees: {} }, registry => {
+    delete registry.worktrees[worktreePath];
+  });
+}
+
+/**
+ * Get the install records of all worktrees, keyed by worktree path
+ */
+export async function getInstallRecords(): Promise<Record<string, InstallRecord>> {
+  const registry = await readState<InstallRegistry>(STATE_NAME, { worktrees: {} });
+  return registry.worktrees;
+}
+
+/**
+ * Format an install record for display, e.g. "clone (reflink)" or "install (1 step failed)"
+ */
+export function formatInstall(record: InstallRecord): string {
+  const failed = record.failed?.length;
+  const details = [
+    record.method ?? record.reason,
+    failed ? `${failed} step${failed === 1 ? '' : 's'} failed` : undefined
+  ].filter(Boolean);
+  return details.length > 0 ? `${record.strategy} (${details.join(', ')})` : record.strategy;
+}
@@ -0,0 +1,17 @@
+const UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration like "30m", "12h", "14d" or "2w" into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([mhdw])$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 30m, 12h, 14d, 2w)`);
+  }
+  return parseInt(match[1], 10) * UNITS[match[2]];
+}
@@ -1,41 +1,178 @@
 import { glob } from 'glob';
-import { copyFile } from 'fs/promises';
+import { copyFile, mkdir, lstat, readFile, readlink, symlink } from 'fs/promises';
+import { existsSync } from 'fs';
 import path from 'path';
 
+export type CopyMode = 'copy' | 'symlink';
+
+export interface CopyRule {
+  /** Glob pattern relative to the repo root */
+  pattern: string;
+  /** Copy the file (default) or symlink it back to the main checkout */
+  mode?: CopyMode;
+}
+
+/** Rules may be given as a plain glob pattern (copy mode) */
+export type CopyRuleEntry = string | CopyRule;
+
+export interface CopyOptions {
+  include: CopyRuleEntry[];
+  exclude?: string[];
+}
+
+export interface CopyResult {
+  copied: string[];
+  linked: string[];
+  /** Files left alone because the destination already matches */
+  skipped: { file: string; reason: string }[];
+  /** Files left alone because the destination exists with different content */
+  conflicts: string[];
+  /** Files that could not be copied or linked */
+  errors: { file: string; message: string }[];
+}
+
+export const DEFAULT_COPY_INCLUDE: CopyRuleEntry[] = ['**/.env', '**/.env.*'];
+
+export const DEFAULT_COPY_EXCLUDE: string[] = [
+  '**/node_modules/**',
+  '**/*.example',
+  '**/*.sample',
+  '**/*.template'
+];
+
+// Never descend into git internals, whatever the config says
+const ALWAYS_EXCLUDE = ['.git/**', '**/.git/**'];
+
 /**
- * Find all .env files in a directory (excludes .example, .sample, .template)
+ * Normalize a rule entry into a full rule
  */
-export async function findEnvFiles(sourceDir: string): Promise<string[]> {
-  const files = await glob('.env*', {
-    cwd: sourceDir,
-    dot: true,
-    nodir: true
-  });
-
-  return files.filter(file => {
-    // Must be .env or .env.something
-    if (file !== '.env' && !file.startsWith('.env.')) return false;
-    // Exclude template files
-    if (file.endsWith('.example') || file.endsWith('.sample') || file.endsWith('.template')) return false;
-    return true;
-  });
+export function normalizeCopyRule(entry: CopyRuleEntry): Required<CopyRule> {
+  if (typeof entry === 'string') return { pattern: entry, mode: 'copy' };
+  if (!entry || typeof entry.pattern !== 'string') {
+    throw new Error(`Invalid copy rule: ${JSON.stringify(entry)}`);
+  }
+  if (entry.mode && entry.mode !== 'copy' && entry.mode !== 'symlink') {
+    throw new Error(`Invalid copy mode "${entry.mode}" for ${entry.pattern} (expected copy or symlink)`);
+  }
+  return { pattern: entry.pattern, mode: entry.mode ?? 'copy' };
 }
 
 /**
- * Copy env files from source to destination directory
+ * Check whether a file lives inside a nested git checkout (a worktree or submodule
+ * placed inside the repo), whose files belong to that checkout rather than this one
  */
-export async function copyEnvFiles(sourceDir: string, destDir: string): Promise<string[]> {
-  const envFiles = await findEnvFiles(sourceDir);
-  const copied: string[] = [];
+function isInNestedCheckout(sourceDir: string, file: string, cache: Map<string, boolean>): boolean {
+  const parts = path.dirname(file).split(/[\\/]/).filter(p => p && p !== '.');
+
+  for (let i = 1; i <= parts.length; i++) {
+    const dir = parts.slice(0, i).join('/');
+    if (!cache.has(dir)) {
+      cache.set(dir, existsSync(path.join(sourceDir, dir, '.git')));
+    }
+    if (cache.get(dir)) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Find files matching the include rules (recursively), minus excluded ones.
+ * When several rules match a file, the first rule decides its mode.
+ */
+export async function findCopyFiles(
+  sourceDir: string,
+  options: CopyOptions
+): Promise<{ file: string; mode: CopyMode }[]> {
+  const ignore = [...(options.exclude ?? DEFAULT_COPY_EXCLUDE), ...ALWAYS_EXCLUDE];
+  const found = new Map<string, CopyMode>();
+  const nestedCache = new Map<string, boolean>();
+
+  for (const rule of options.include.map(normalizeCopyRule)) {
+    const files = await glob(rule.pattern, {
+      cwd: sourceDir,
+      dot: true,
+      nodir: true,
+      ignore
+    });
+
+    for (const file of files.sort()) {
+      if (!found.has(file) && !isInNestedCheckout(sourceDir, file, nestedCache)) {
+        found.set(file, rule.mode);
+      }
+    }
+  }
+
+  return [...found].map(([file, mode]) => ({ file, mode }));
+}
+
+/**
+ * Check whether two files have identical content
+ */
+async function sameContent(a: string, b: string): Promise<boolean> {
+  try {
+    const [contentA, contentB] = await Promise.all([readFile(a), readFile(b)]);
+    return contentA.equals(contentB);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copy or symlink env files (and anything else matching the rules) from source to destination.
+ * Existing destination files are never overwritten.
+ */
+export async function copyEnvFiles(
+  sourceDir: string,
+  destDir: string,
+  options: CopyOptions = { include: DEFAULT_COPY_INCLUDE }
+): Promise<CopyResult> {
+  const files = await findCopyFiles(sourceDir, options);
+  const result: CopyResult = { copied: [], linked: [], skipped: [], conflicts: [], errors: [] };
+
+  for (const { file, mode } of files) {
+    const source = path.join(sourceDir, file);
+    const dest = path.join(destDir, file);
 
-  for (const file of envFiles) {
     try {
-      await copyFile(path.join(sourceDir, file), path.join(destDir, file));
-      copied.push(file);
-    } catch (error) {
-      console.warn(`Warning: Could not copy ${file}: ${error}`);
+      const existing = await lstat(dest).catch(() => null);
+
+      if (existing) {
+        if (existing.isSymbolicLink() && path.resolve(path.dirname(dest), await readlink(dest)) === source) {
+          result.skipped.push({ file, reason: 'already linked' });
+        } else if (!existing.isSymbolicLink() && mode === 'copy' && await sameContent(source, dest)) {
+          result.skipped.push({ file, reason: 'already present' });
+        } else {
+          result.conflicts.push(file);
+        }
+        continue;
+      }
+
+      await mkdir(path.dirname(dest), { recursive: true });
+
+      if (mode === 'symlink') {
+        await symlink(source, dest);
+        result.linked.push(file);
+      } else {
+        await copyFile(source, dest);
+        result.copied.push(file);
+      }
+    } catch (error: any) {
+      result.errors.push({ file, message: error.message });
     }
   }
 
-  return copied;
+  return result;
+}
+
+/**
+ * Summarize a copy result in one line, e.g. "copied 2, linked 1, 1 conflict(s)"
+ */
+export function formatCopySummary(result: CopyResult): string {
+  const parts: string[] = [];
+  if (result.copied.length > 0) parts.push(`copied ${result.copied.length}`);
+  if (result.linked.length > 0) parts.push(`linked ${result.linked.length}`);
+  if (result.skipped.length > 0) parts.push(`skipped ${result.skipped.length}`);
+  if (result.conflicts.length > 0) parts.push(`${result.conflicts.length} conflict(s)`);
+  if (result.errors.length > 0) parts.push(`${result.errors.length} error(s)`);
+  return parts.join(', ');
 }
@@ -1,6 +1,8 @@
-import { execFile } from 'child_process';
+import { execFile, spawn, ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
 import { promisify } from 'util';
 import path from 'path';
+import os from 'os';
 
 const execFileAsync = promisify(execFile);
 
@@ -12,6 +14,45 @@ export interface WorktreeInfo {
   detached: boolean;
 }
 
+export interface WorktreeStatus {
+  /** Tracked files with staged or unstaged changes */
+  modified: number;
+  untracked: number;
+  upstream?: string;
+  /** Commits ahead of / behind the upstream branch */
+  ahead?: number;
+  behind?: number;
+  baseBranch?: string;
+  /** Commits ahead of / behind the default branch */
+  aheadOfBase?: number;
+  behindBase?: number;
+  lastCommit?: {
+    subject: string;
+    /** Unix timestamp (seconds) */
+    timestamp: number;
+  };
+}
+
+export interface DiffStat {
+  files: number;
+  insertions: number;
+  deletions: number;
+}
+
+export interface CommitSummary {
+  /** Abbreviated hash */
+  hash: string;
+  subject: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export interface DiffPreview {
+  lines: string[];
+  /** true when the diff had more than the requested number of lines */
+  truncated: boolean;
+}
+
 /**
  * Check if we're inside a git repository
  */
@@ -32,12 +73,20 @@ export async function getGitRoot(): Promise<string> {
   return stdout.trim();
 }
 
+/**
+ * Get the git common dir (shared by all worktrees of a repository)
+ */
+export async function getGitCommonDir(): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['rev-parse', '--git-common-dir']);
+  return path.resolve(stdout.trim());
+}
+
 /**
  * Check if a branch exists locally
  */
 export async function branchExists(branchName: string): Promise<boolean> {
   try {
-    await execFileAsync('git', ['rev-parse', '--verify', branchName]);
+    await execFileAsync('git', ['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
     return true;
   } catch {
     return false;
@@ -45,15 +94,12 @@ export async function branchExists(branchName: string): Promise<boolean> {
 }
 
 /**
- * Check if a branch exists on remote
+ * Check if a branch exists on a remote (exact match on refs/remotes/<remote>/<branch>)
  */
-export async function remoteBranchExists(branchName: string): Promise<boolean> {
+export async function remoteBranchExists(branchName: string, remote: string = 'origin'): Promise<boolean> {
   try {
-    const { stdout } = await execFileAsync('git', ['branch', '-r']);
-    const remoteBranches = stdout.split('\n').map(b => b.trim());
-    return remoteBranches.some(b =>
-      b === `origin/${branchName}` || b.endsWith(`/${branchName}`)
-    );
+    await execFileAsync('git', ['rev-parse', '--verify', '--quiet', `refs/remotes/${remote}/${branchName}`]);
+    return true;
   } catch {
     return false;
   }
@@ -74,11 +120,11 @@ export async function getCurrentBranch(): Promise<string> {
 /**
  * Get the default branch (main or master)
  */
-export async function getDefaultBranch(): Promise<string> {
+export async function getDefaultBranch(remote: string = 'origin'): Promise<string> {
   try {
     // Try to get the default branch from remote
-    const { stdout } = await execFileAsync('git', ['symbolic-ref', 'refs/remotes/origin/HEAD']);
-    return stdout.trim().replace('refs/remotes/origin/', '');
+    const { stdout } = await execFileAsync('git', ['symbolic-ref', `refs/remotes/${remote}/HEAD`]);
+    return stdout.trim().replace(`refs/remotes/${remote}/`, '');
   } catch {
     // Fallback: check if main or master exists
     if (await branchExists('main')) return 'main';
@@ -87,24 +133,120 @@ export async function getDefaultBranch(): Promise<string> {
   }
 }
 
+export interface CreatedBranch {
+  /** false when an existing local branch was checked out */
+  created: boolean;
+  /** Ref the new branch was forked from (HEAD when omitted) */
+  startPoint?: string;
+  /** Remote branch the new branch tracks */
+  upstream?: string;
+}
+
 /**
- * Create a worktree at the specified path for the given branch
- * @param startPoint - Optional branch/commit to create the new branch from
+ * Create a worktree at the specified path for the given branch.
+ * An existing local branch is checked out as is; a name that only exists on a
+ * remote gets a local branch tracking it; anything else forks a new branch.
+ * @param startPoint - Optional branch/commit to create a new branch from
+ * @param preferredRemote - Remote to track when several remotes have the branch
  */
-export async function createWorktree(worktreePath: string, branchName: string, startPoint?: string): Promise<void> {
+export async function createWorktree(
+  worktreePath: string,
+  branchName: string,
+  startPoint?: string,
+  preferredRemote?: string
+): Promise<CreatedBranch> {
   validateBranchName(branchName);
 
-  const exists = await branchExists(branchName);
-
-  if (exists) {
+  if (await branchExists(branchName)) {
     await execFileAsync('git', ['worktree', 'add', '--', worktreePath, branchName]);
-  } else if (startPoint) {
-    await execFileAsync('git', ['worktree', 'add', '-b', branchName, '--', worktreePath, startPoint]);
-  } else {
-    await execFileAsync('git', ['worktree', 'add', '-b', branchName, '--', worktreePath]);
+    return { created: false };
+  }
+
+  if (startPoint) {
+    if (startPoint.startsWith('-')) {
+      throw new Error('Start point cannot start with -');
+    }
+    // Forking from e.g. origin/main must not make origin/main the upstream
+    await execFileAsync('git', ['worktree', 'add', '--no-track', '-b', branchName, '--', worktreePath, startPoint]);
+    return { created: true, startPoint };
+  }
+
+  const remoteBranch = await findRemoteBranch(branchName, preferredRemote);
+  if (remoteBranch) {
+    await execFileAsync('git', ['worktree', 'add', '--track', '-b', branchName, '--', worktreePath, remoteBranch]);
+    return { created: true, startPoint: remoteBranch, upstream: remoteBranch };
+  }
+
+  await execFileAsync('git', ['worktree', 'add', '-b', branchName, '--', worktreePath]);
+  return { created: true };
+}
+
+/**
+ * Find the remote-tracking branch for a branch name, e.g. "origin/feature".
+ * Names must match exactly; the preferred remote wins when several remotes have the branch.
+ */
+export async function findRemoteBranch(branchName: string, preferredRemote: string = 'origin'): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync('git', ['for-each-ref', '--format=%(refname)', 'refs/remotes']);
+    const matches = stdout.split('\n')
+      .filter(ref => ref.endsWith(`/${branchName}`))
+      .map(ref => ref.replace('refs/remotes/', ''))
+      .filter(ref => ref.slice(ref.indexOf('/') + 1) === branchName);
+    return matches.find(ref => ref.startsWith(`${preferredRemote}/`)) ?? matches[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check if a ref (branch, tag or commit) resolves to a commit
+ */
+export async function refExists(ref: string): Promise<boolean> {
+  if (ref.startsWith('-')) return false;
+  try {
+    await execFileAsync('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
   }
 }
 
+/**
+ * Resolve a ref to its full commit hash
+ */
+export async function getCommit(ref: string): Promise<string> {
+  if (ref.startsWith('-')) {
+    throw new Error('Ref cannot start with -');
+  }
+  const { stdout } = await execFileAsync('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  return stdout.trim();
+}
+
+/**
+ * Fetch the latest default branch from a remote and return the ref to fork from.
+ * Falls back to the last fetched (or local) copy when the fetch fails, e.g. offline.
+ */
+export async function fetchDefaultBranch(
+  defaultBranch: string,
+  remote: string = 'origin'
+): Promise<{ ref: string; fetched: boolean }> {
+  const remoteRef = `${remote}/${defaultBranch}`;
+  try {
+    await fetchRef(remote, `refs/heads/${defaultBranch}`);
+    return { ref: remoteRef, fetched: true };
+  } catch {
+    return { ref: await refExists(remoteRef) ? remoteRef : defaultBranch, fetched: false };
+  }
+}
+
+/**
+ * Get the ref merge checks compare against: the base branch on the remote
+ * (e.g. "upstream/main") when it has been fetched, else the local branch.
+ */
+export async function getBaseRef(baseBranch: string, remote: string = 'origin'): Promise<string> {
+  return await refExists(`refs/remotes/${remote}/${baseBranch}`) ? `${remote}/${baseBranch}` : baseBranch;
+}
+
 /**
  * List all worktrees
  */
@@ -162,17 +304,261 @@ export async function pruneWorktrees(): Promise<void> {
 }
 
 /**
- * Check if a branch has been merged into the default branch
+ * How a branch made it into the base branch:
+ * - merge: the branch tip is an ancestor of the base (merge commit or fast-forward)
+ * - rebase: every commit's patch is already on the base ("rebase and merge")
+ * - squash: the branch's combined diff is already on the base ("squash and merge")
+ */
+export type MergeMethod = 'merge' | 'rebase' | 'squash';
+
+/**
+ * Check whether every commit listed by `git cherry` is already upstream
+ */
+async function allPatchesUpstream(upstream: string, head: string): Promise<boolean> {
+  const { stdout } = await execFileAsync('git', ['cherry', upstream, head]);
+  const lines = stdout.split('\n').filter(Boolean);
+  return lines.length > 0 && lines.every(line => line.startsWith('-'));
+}
+
+/**
+ * Detect whether (and how) a branch has been merged into the default branch (or the given base branch)
  */
-export async function isBranchMerged(branchName: string): Promise<boolean> {
+export async function getMergeMethod(branchName: string, baseBranch?: string): Promise<MergeMethod | null> {
   try {
-    const defaultBranch = await getDefaultBranch();
-    const { stdout } = await execFileAsync('git', ['branch', '--merged', defaultBranch]);
-    const mergedBranches = stdout.split('\n').map(b => b.trim().replace('* ', ''));
-    return mergedBranches.includes(branchName);
+    const base = baseBranch || await getDefaultBranch();
+
+    try {
+      await execFileAsync('git', ['merge-base', '--is-ancestor', `refs/heads/${branchName}`, base]);
+      return 'merge';
+    } catch {
+      // Not an ancestor, try patch-based detection
+    }
+
+    return await getPatchMergeMethod(branchName, base);
   } catch {
-    return false;
+    return null;
+  }
+}
+
+/**
+ * Detect a branch merged by rebasing or squashing, i.e. whose changes are on the
+ * base branch although its tip isn't
+ */
+export async function getPatchMergeMethod(branchName: string, base: string): Promise<'rebase' | 'squash' | null> {
+  try {
+    if (await allPatchesUpstream(base, `refs/heads/${branchName}`)) {
+      return 'rebase';
+    }
+
+    // Compare the patch-id of the branch's combined diff with those of the base's
+    // commits since the merge base, without writing any objects
+    const { stdout } = await execFileAsync('git', ['merge-base', base, `refs/heads/${branchName}`]);
+    const mergeBase = stdout.trim();
+    const [squashed] = await getPatchIds(['diff', '--no-color', '--no-ext-diff', mergeBase, `refs/heads/${branchName}`]);
+    if (squashed) {
+      const upstream = await getPatchIds(['log', '-p', '--no-merges', '--no-color', '--no-ext-diff', `${mergeBase}..${base}`]);
+      if (upstream.includes(squashed)) {
+        return 'squash';
+      }
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pipe the patches printed by a git command through `git patch-id --stable`
+ */
+async function getPatchIds(args: string[]): Promise<string[]> {
+  const producer = spawn('git', args, { stdio: ['ignore', 'pipe', 'ignore'] });
+  const patchId = spawn('git', ['patch-id', '--stable'], { stdio: ['pipe', 'pipe', 'ignore'] });
+  producer.stdout.pipe(patchId.stdin);
+  // patch-id may exit before reading everything; the producer's errors show in its exit code
+  patchId.stdin.on('error', () => {});
+
+  let output = '';
+  patchId.stdout.on('data', chunk => { output += chunk; });
+
+  const exited = (child: ChildProcess) => new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+  const [producerCode, patchIdCode] = await Promise.all([exited(producer), exited(patchId)]);
+  if (producerCode !== 0 || patchIdCode !== 0) {
+    throw new Error(`git ${args[0]} | git patch-id failed`);
   }
+
+  // Each line is "<patch-id> <commit>"
+  return output.split('\n').filter(Boolean).map(line => line.split(' ')[0]);
+}
+
+/**
+ * List local branches whose tips are reachable from a ref
+ */
+export async function listMergedBranches(ref: string): Promise<string[]> {
+  if (ref.startsWith('-')) return [];
+  const { stdout } = await execFileAsync('git', ['for-each-ref', `--merged=${ref}`, '--format=%(refname)', 'refs/heads']);
+  return stdout.split('\n').filter(Boolean).map(name => name.replace('refs/heads/', ''));
+}
+
+/**
+ * List the branches of a remote as fetched, without the remote prefix
+ */
+export async function listRemoteBranches(remote: string = 'origin'): Promise<string[]> {
+  const prefix = `refs/remotes/${remote}/`;
+  const { stdout } = await execFileAsync('git', ['for-each-ref', '--format=%(refname)', prefix]);
+  return stdout.split('\n')
+    .filter(ref => ref.startsWith(prefix))
+    .map(ref => ref.slice(prefix.length))
+    .filter(branch => branch !== 'HEAD');
+}
+
+/**
+ * Check if a branch has been merged into the default branch (or the given base branch)
+ */
+export async function isBranchMerged(branchName: string, baseBranch?: string): Promise<boolean> {
+  return (await getMergeMethod(branchName, baseBranch)) !== null;
+}
+
+/**
+ * Get working tree and commit status for a worktree
+ */
+export async function getWorktreeStatus(worktreePath: string, baseBranch?: string): Promise<WorktreeStatus> {
+  const status: WorktreeStatus = { modified: 0, untracked: 0 };
+
+  const { stdout } = await execFileAsync(
+    'git',
+    ['status', '--porcelain=v2', '--branch', '--untracked-files=normal'],
+    { cwd: worktreePath }
+  );
+
+  for (const line of stdout.split('\n')) {
+    if (line.startsWith('# branch.upstream ')) {
+      status.upstream = line.substring(18);
+    } else if (line.startsWith('# branch.ab ')) {
+      const match = line.match(/^# branch\.ab \+(\d+) -(\d+)/);
+      if (match) {
+        status.ahead = parseInt(match[1], 10);
+        status.behind = parseInt(match[2], 10);
+      }
+    } else if (line.startsWith('? ')) {
+      status.untracked++;
+    } else if (/^[12u] /.test(line)) {
+      status.modified++;
+    }
+  }
+
+  if (baseBranch) {
+    try {
+      const { stdout: counts } = await execFileAsync(
+        'git',
+        ['rev-list', '--left-right', '--count', `${baseBranch}...HEAD`],
+        { cwd: worktreePath }
+      );
+      const [behind, ahead] = counts.trim().split(/\s+/).map(n => parseInt(n, 10));
+      status.baseBranch = baseBranch;
+      status.aheadOfBase = ahead;
+      status.behindBase = behind;
+    } catch {
+      // Base branch may not exist locally
+    }
+  }
+
+  try {
+    const { stdout: log } = await execFileAsync('git', ['log', '-1', '--format=%ct%x09%s'], { cwd: worktreePath });
+    const [timestamp, ...subject] = log.trim().split('\t');
+    if (timestamp) {
+      status.lastCommit = { timestamp: parseInt(timestamp, 10), subject: subject.join('\t') };
+    }
+  } catch {
+    // No commits yet
+  }
+
+  return status;
+}
+
+/**
+ * Summarize the changes of a worktree since a commit, committed or not
+ * (untracked files aren't included)
+ */
+export async function getDiffStat(worktreePath: string, base: string): Promise<DiffStat> {
+  if (base.startsWith('-')) {
+    throw new Error('Base cannot start with -');
+  }
+  const { stdout } = await execFileAsync('git', ['diff', '--shortstat', base], { cwd: worktreePath });
+  const count = (pattern: RegExp) => parseInt(stdout.match(pattern)?.[1] ?? '0', 10);
+
+  return {
+    files: count(/(\d+) files? changed/),
+    insertions: count(/(\d+) insertions?\(\+\)/),
+    deletions: count(/(\d+) deletions?\(-\)/)
+  };
+}
+
+/**
+ * Get the short status of a worktree, one line per changed file (`git status --short`)
+ */
+export async function getStatusLines(worktreePath: string): Promise<string[]> {
+  const { stdout } = await execFileAsync('git', ['status', '--short', '--untracked-files=normal'], { cwd: worktreePath });
+  return stdout.split('\n').filter(Boolean);
+}
+
+/**
+ * Get the latest commits of a worktree, newest first
+ */
+export async function getRecentCommits(worktreePath: string, count: number): Promise<CommitSummary[]> {
+  try {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['log', `-${count}`, '--format=%h%x09%ct%x09%s'],
+      { cwd: worktreePath }
+    );
+    return stdout.split('\n').filter(Boolean).map(line => {
+      const [hash, timestamp, ...subject] = line.split('\t');
+      return { hash, timestamp: parseInt(timestamp, 10), subject: subject.join('\t') };
+    });
+  } catch {
+    // No commits yet
+    return [];
+  }
+}
+
+/**
+ * Read the changes of a worktree since its branch left base, committed or not
+ * (untracked files aren't included). Reading stops after maxLines, so a huge
+ * diff costs no more than a small one.
+ */
+export async function readDiff(worktreePath: string, base: string, maxLines: number): Promise<DiffPreview> {
+  if (base.startsWith('-')) {
+    throw new Error('Base cannot start with -');
+  }
+
+  let from = base;
+  try {
+    const { stdout } = await execFileAsync('git', ['merge-base', base, 'HEAD'], { cwd: worktreePath });
+    from = stdout.trim();
+  } catch {
+    // Unrelated histories: compare against base itself
+  }
+
+  const child = spawn('git', ['diff', '--no-color', '--no-ext-diff', from], { cwd: worktreePath, stdio: ['ignore', 'pipe', 'ignore'] });
+  // A failing git just leaves the diff empty
+  child.on('error', () => {});
+  const lines: string[] = [];
+  let truncated = false;
+
+  for await (const line of createInterface({ input: child.stdout })) {
+    if (lines.length === maxLines) {
+      truncated = true;
+      child.kill();
+      break;
+    }
+    lines.push(line);
+  }
+
+  return { lines, truncated };
 }
 
 /**
@@ -195,13 +581,22 @@ export function validateBranchName(branchName: string): void {
 
 /**
  * Get worktree path for a given branch name
+ * @param template - Path relative to the main repo, supports {repo} and {branch}
  */
-export function getWorktreePath(mainRepoPath: string, branchName: string): string {
+export function getWorktreePath(
+  mainRepoPath: string,
+  branchName: string,
+  template: string = '../{repo}-{branch}'
+): string {
   validateBranchName(branchName);
   const repoName = path.basename(mainRepoPath);
   // Sanitize branch name for filesystem (replace / with -)
   const safeBranchName = branchName.replace(/\//g, '-');
-  return path.join(path.dirname(mainRepoPath), `${repoName}-${safeBranchName}`);
+  const expanded = template
+    .replace(/\{repo\}/g, repoName)
+    .replace(/\{branch\}/g, safeBranchName)
+    .replace(/^~(?=$|\/)/, os.homedir());
+  return path.resolve(mainRepoPath, expanded);
 }
 
 /**
@@ -219,9 +614,34 @@ export async function findWorktree(identifier: string): Promise<WorktreeInfo | u
 }
 
 /**
- * Push a branch to remote
+ * Push a branch to a remote and set it as the upstream
  */
-export async function pushBranch(branchName: string, cwd?: string): Promise<void> {
-  const args = ['push', '-u', 'origin', branchName];
+export async function pushBranch(branchName: string, cwd?: string, remote: string = 'origin'): Promise<void> {
+  if (remote.startsWith('-')) {
+    throw new Error('Remote cannot start with -');
+  }
+  const args = ['push', '-u', remote, branchName];
   await execFileAsync('git', args, cwd ? { cwd } : undefined);
 }
+
+/**
+ * Fetch a ref from a remote. With a local branch, the branch is force-updated
+ * to the fetched commit; otherwise the commit is left in FETCH_HEAD of the
+ * worktree at cwd.
+ */
+export async function fetchRef(remote: string, ref: string, localBranch?: string, cwd?: string): Promise<void> {
+  if (remote.startsWith('-') || ref.startsWith('-')) {
+    throw new Error('Remote and ref cannot start with -');
+  }
+  if (localBranch) validateBranchName(localBranch);
+
+  const refspec = localBranch ? `+${ref}:refs/heads/${localBranch}` : ref;
+  await execFileAsync('git', ['fetch', remote, refspec], cwd ? { cwd } : undefined);
+}
+
+/**
+ * Fast-forward the branch checked out in a worktree to a commit
+ */
+export async function fastForward(worktreePath: string, commit: string): Promise<void> {
+  await execFileAsync('git', ['merge', '--ff-only', commit], { cwd: worktreePath });
+}
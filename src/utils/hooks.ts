@@ -0,0 +1,128 @@
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import type { WtConfig } from './config.js';
+
+export type HookEvent = 'postCreate' | 'preLaunch' | 'preRemove' | 'postRemove';
+
+export const HOOK_EVENTS: HookEvent[] = ['postCreate', 'preLaunch', 'preRemove', 'postRemove'];
+
+export interface HookDefinition {
+  /** Shell command to run */
+  run: string;
+  /** Label shown while the hook runs (defaults to the command) */
+  name?: string;
+  /** Whether a failure aborts the operation ('fail', default) or only warns */
+  onError?: 'fail' | 'warn';
+}
+
+/** Hooks may be given as a plain command string */
+export type HookEntry = string | HookDefinition;
+
+export type HooksConfig = Partial<Record<HookEvent, HookEntry[]>>;
+
+export interface HookContext {
+  worktreePath: string;
+  branch: string;
+  mainRepoPath: string;
+}
+
+export interface HookHandlers {
+  onStart?: (hook: HookDefinition) => void;
+  onOutput?: (hook: HookDefinition, line: string) => void;
+  onSuccess?: (hook: HookDefinition) => void;
+  onWarn?: (hook: HookDefinition, error: Error) => void;
+  onFail?: (hook: HookDefinition, error: Error) => void;
+}
+
+/**
+ * Get the hooks configured for a lifecycle event
+ */
+export function getHooks(config: Pick<WtConfig, 'hooks'>, event: HookEvent): HookDefinition[] {
+  const entries = config.hooks?.[event] ?? [];
+  return entries.map(entry => typeof entry === 'string' ? { run: entry } : entry);
+}
+
+/**
+ * Get the display label of a hook
+ */
+export function getHookLabel(hook: HookDefinition): string {
+  return hook.name || hook.run;
+}
+
+/**
+ * Run a single hook command through the shell, streaming its output line by line
+ */
+export function runHook(
+  hook: HookDefinition,
+  event: HookEvent,
+  context: HookContext,
+  onOutput?: (line: string) => void
+): Promise<void> {
+  // Hooks run inside the worktree, except once it's gone (postRemove)
+  const cwd = existsSync(context.worktreePath) ? context.worktreePath : context.mainRepoPath;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(hook.run, {
+      cwd,
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: {
+        ...process.env,
+        WT_HOOK: event,
+        WT_WORKTREE_PATH: context.worktreePath,
+        WT_BRANCH: context.branch,
+        WT_MAIN_REPO_PATH: context.mainRepoPath
+      }
+    });
+
+    let pending = '';
+    const handleData = (data: Buffer) => {
+      const lines = (pending + data.toString()).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) onOutput?.(line);
+      }
+    };
+
+    child.stdout.on('data', handleData);
+    child.stderr.on('data', handleData);
+
+    child.on('close', (code) => {
+      if (pending.trim()) onOutput?.(pending);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Hook "${getHookLabel(hook)}" failed with code ${code}`));
+      }
+    });
+
+    child.on('error', reject);
+  });
+}
+
+/**
+ * Run all hooks for an event in order.
+ * Throws on the first failing hook whose onError is 'fail'; 'warn' hooks only report.
+ */
+export async function runHooks(
+  config: Pick<WtConfig, 'hooks'>,
+  event: HookEvent,
+  context: HookContext,
+  handlers: HookHandlers = {}
+): Promise<void> {
+  for (const hook of getHooks(config, event)) {
+    handlers.onStart?.(hook);
+
+    try {
+      await runHook(hook, event, context, line => handlers.onOutput?.(hook, line));
+      handlers.onSuccess?.(hook);
+    } catch (error: any) {
+      if (hook.onError === 'warn') {
+        handlers.onWarn?.(hook, error);
+        continue;
+      }
+      handlers.onFail?.(hook, error);
+      throw error;
+    }
+  }
+}
@@ -1,90 +1,101 @@
-import { spawn } from 'child_process';
-import { access } from 'fs/promises';
-import path from 'path';
-import { constants } from 'fs';
-
-export type AITool = 'claude' | 'codex';
+import { spawn, ChildProcess } from 'child_process';
+import { openSync, closeSync } from 'fs';
+import type { ToolDefinition } from './tools.js';
+import { openWindow, Multiplexer } from './multiplexer.js';
 
 export interface LaunchOptions {
   cwd: string;
-  tool: AITool;
+  tool: ToolDefinition;
+  /** Initial task for the tool, passed in the form its promptArgs describe */
+  prompt?: string;
+  /** Run in the background without a terminal (using the tool's headlessArgs), appending output to this file */
+  logFile?: string;
 }
 
 /**
- * Launch an AI coding assistant in the specified directory
+ * Launch an AI coding assistant in the specified directory.
+ * Resolves once the process has started; rejects if it couldn't be started.
  */
-export function launchAITool(options: LaunchOptions): void {
-  const { cwd, tool } = options;
+export async function launchAITool(options: LaunchOptions): Promise<ChildProcess> {
+  const { cwd, tool, prompt, logFile } = options;
+  const args = getArgs(tool, prompt, !!logFile);
+  const env = { ...process.env, ...tool.env };
 
   // Run the tool directly (no shell for security)
-  spawn(tool, [], {
-    cwd,
-    stdio: 'inherit',
-  });
+  if (!logFile) {
+    return waitForSpawn(spawn(tool.command, args, { cwd, stdio: 'inherit', env }), tool);
+  }
+
+  // Detached so it keeps running after wt exits
+  const fd = openSync(logFile, 'a');
+  try {
+    const child = spawn(tool.command, args, { cwd, stdio: ['ignore', fd, fd], env, detached: true });
+    child.unref();
+    return waitForSpawn(child, tool);
+  } finally {
+    closeSync(fd);
+  }
 }
 
 /**
- * Check if the AI tool is installed/available
+ * Launch an AI coding assistant in a new window of a terminal multiplexer
+ * @returns pid of the tool, when it could be found out
  */
-export async function isToolAvailable(tool: AITool): Promise<boolean> {
-  return new Promise((resolve) => {
-    const child = spawn('which', [tool]);
-    child.on('close', (code) => {
-      resolve(code === 0);
-    });
-    child.on('error', () => {
-      resolve(false);
-    });
+export async function launchAIToolInWindow(
+  options: Omit<LaunchOptions, 'logFile'> & { multiplexer: Multiplexer; name: string }
+): Promise<number | undefined> {
+  const { cwd, tool, prompt, multiplexer, name } = options;
+  return openWindow(multiplexer, {
+    name,
+    cwd,
+    command: tool.command,
+    args: getArgs(tool, prompt, false),
+    env: tool.env
   });
 }
 
-/**
- * Detect which package manager to use based on lockfiles
- */
-export async function detectPackageManager(dir: string): Promise<'npm' | 'yarn' | 'pnpm' | 'bun' | null> {
-  const lockfiles = [
-    { file: 'bun.lockb', manager: 'bun' as const },
-    { file: 'pnpm-lock.yaml', manager: 'pnpm' as const },
-    { file: 'yarn.lock', manager: 'yarn' as const },
-    { file: 'package-lock.json', manager: 'npm' as const },
-  ];
+function waitForSpawn(child: ChildProcess, tool: ToolDefinition): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    child.once('spawn', () => resolve(child));
+    child.once('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT'
+        ? new Error(`${tool.command} is not installed or not in PATH`)
+        : new Error(`Could not start ${tool.name}: ${error.message}`));
+    });
+  });
+}
 
-  for (const { file, manager } of lockfiles) {
-    try {
-      await access(path.join(dir, file), constants.R_OK);
-      return manager;
-    } catch {
-      // Continue to next lockfile
-    }
+function getArgs(tool: ToolDefinition, prompt: string | undefined, headless: boolean): string[] {
+  const args = [...(tool.args ?? [])];
+  if (headless) {
+    args.push(...tool.headlessArgs ?? [], ...(prompt ? [prompt] : []));
+  } else if (prompt) {
+    args.push(...getPromptArgs(tool, prompt));
   }
+  return args;
+}
 
-  // Check if package.json exists (use npm as default)
-  try {
-    await access(path.join(dir, 'package.json'), constants.R_OK);
-    return 'npm';
-  } catch {
-    return null;
-  }
+/**
+ * Get the arguments that hand an initial prompt to an interactive session
+ */
+function getPromptArgs(tool: ToolDefinition, prompt: string): string[] {
+  if (tool.promptArgs === undefined) return [prompt];
+  return (tool.promptArgs ?? []).map(arg => arg.replace(/\{prompt\}/g, () => prompt));
 }
 
 /**
- * Run package manager install in the specified directory
+ * Check if the AI tool is installed/available
  */
-export function runInstall(dir: string, packageManager: 'npm' | 'yarn' | 'pnpm' | 'bun'): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const child = spawn(packageManager, ['install'], {
-      cwd: dir,
-      stdio: 'inherit',
-    });
+export async function isToolAvailable(tool: ToolDefinition): Promise<boolean> {
+  const [command, ...args] = tool.check?.length ? tool.check : ['which', tool.command];
 
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: 'ignore' });
     child.on('close', (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`${packageManager} install failed with code ${code}`));
-      }
+      resolve(code === 0);
+    });
+    child.on('error', () => {
+      resolve(false);
     });
-
-    child.on('error', reject);
   });
 }
@@ -0,0 +1,118 @@
+import { realpath } from 'fs/promises';
+import { readState, updateState } from './state.js';
+import { getCurrentBranch, getCommit, CreatedBranch } from './git.js';
+import { summarizePrompt } from './prompt.js';
+
+export interface WorktreeMetadata {
+  /** ISO timestamp */
+  createdAt: string;
+  /** Branch or ref the worktree's branch was forked from, e.g. "main" or "origin/main" */
+  baseBranch?: string;
+  /** Commit the branch pointed at when the worktree was created */
+  baseCommit?: string;
+  /** Free-text description of the task */
+  note?: string;
+  /** Task the AI tool was started with, kept so it can be resumed */
+  prompt?: string;
+  /** Name of the set of worktrees created together by `wt spawn` */
+  group?: string;
+  /** Id of the AI tool last launched in the worktree */
+  tool?: string;
+  /** ISO timestamp of the last launch */
+  launchedAt?: string;
+}
+
+interface MetadataRegistry {
+  worktrees: Record<string, WorktreeMetadata>;
+}
+
+const STATE_NAME = 'metadata';
+
+/**
+ * Update the metadata of a worktree (keyed by its real path)
+ */
+async function updateMetadata(
+  worktreePath: string,
+  update: (metadata: WorktreeMetadata) => void
+): Promise<WorktreeMetadata> {
+  const key = await realpath(worktreePath);
+  let entry: WorktreeMetadata | undefined;
+
+  await updateState<MetadataRegistry>(STATE_NAME, { worktrees: {} }, registry => {
+    // Worktrees created before wt kept metadata get a creation time of now
+    entry = registry.worktrees[key] ?? { createdAt: new Date().toISOString() };
+    update(entry);
+    registry.worktrees[key] = entry;
+  });
+  return entry!;
+}
+
+/**
+ * Record a newly created worktree and the base its branch was forked from.
+ * Existing and tracking branches have no known base unless one is given.
+ * Without a note, the first line of the prompt describes the worktree.
+ * @param base - Base branch to record instead of the one derived from the creation
+ */
+export async function recordCreated(
+  worktreePath: string,
+  branchName: string,
+  branch: CreatedBranch,
+  options: { note?: string; prompt?: string; base?: string; group?: string } = {}
+): Promise<WorktreeMetadata> {
+  let baseBranch = options.base;
+  let baseCommit: string | undefined;
+
+  if (branch.created && !branch.upstream) {
+    if (!baseBranch) {
+      // Without a start point the branch was forked from the current checkout
+      const current = branch.startPoint ?? await getCurrentBranch();
+      baseBranch = current === 'HEAD' ? undefined : current;
+    }
+    baseCommit = await getCommit(`refs/heads/${branchName}`).catch(() => undefined);
+  }
+
+  return updateMetadata(worktreePath, metadata => {
+    metadata.createdAt = new Date().toISOString();
+    metadata.baseBranch = baseBranch;
+    metadata.baseCommit = baseCommit;
+    metadata.note = options.note || (options.prompt ? summarizePrompt(options.prompt) : undefined);
+    metadata.prompt = options.prompt;
+    metadata.group = options.group;
+  });
+}
+
+/**
+ * Record that an AI tool was launched in a worktree
+ */
+export async function recordLaunch(worktreePath: string, toolId: string): Promise<WorktreeMetadata> {
+  return updateMetadata(worktreePath, metadata => {
+    metadata.tool = toolId;
+    metadata.launchedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Set or clear (with an empty string) the note of a worktree
+ */
+export async function setNote(worktreePath: string, note: string): Promise<WorktreeMetadata> {
+  return updateMetadata(worktreePath, metadata => {
+    metadata.note = note.trim() || undefined;
+  });
+}
+
+/**
+ * Forget the metadata of a removed worktree
+ */
+export async function forgetMetadata(worktreePath: string): Promise<void> {
+  await updateState<MetadataRegistry>(STATE_NAME, { worktrees: {} }, registry => {
+    delete registry.worktrees[worktreePath];
+  });
+}
+
+/**
+ * Get the metadata of all worktrees, keyed by worktree path
+ */
+export async function getAllMetadata(): Promise<Record<string, WorktreeMetadata>> {
+  const registry = await readState<MetadataRegistry>(STATE_NAME, { worktrees: {} });
+  return registry.worktrees;
+}
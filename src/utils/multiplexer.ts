@@ -0,0 +1,152 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+/** How long to wait for a zellij pane to report the pid of its command */
+const PID_TIMEOUT_MS = 3000;
+
+/**
+ * Terminal multiplexer AI tools can be launched in, so the terminal (and the TUI) stays free:
+ * - tmux: a window in the current session, or a detached session when wt runs outside tmux
+ * - zellij: a tab in the current session (wt has to run inside zellij)
+ */
+export type Multiplexer = 'tmux' | 'zellij';
+
+/** "auto" picks the multiplexer wt is running in */
+export const MULTIPLEXER_MODES = ['tmux', 'zellij', 'auto'];
+
+export interface OpenWindowOptions {
+  /** Window, tab or session name */
+  name: string;
+  cwd: string;
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+/**
+ * Resolve the configured multiplexer. Returns null when tools take over the terminal,
+ * either because none is configured or because "auto" found wt outside one.
+ */
+export function resolveMultiplexer(mode: string | undefined): Multiplexer | null {
+  if (!mode) return null;
+  if (mode === 'auto') {
+    if (process.env.TMUX) return 'tmux';
+    if (process.env.ZELLIJ) return 'zellij';
+    return null;
+  }
+  if (mode !== 'tmux' && mode !== 'zellij') {
+    throw new Error(`Unknown multiplexer: ${mode} (expected ${MULTIPLEXER_MODES.join(', ')})`);
+  }
+  if (mode === 'zellij' && !process.env.ZELLIJ) {
+    throw new Error('Launching in zellij needs wt to run inside a zellij session');
+  }
+  return mode;
+}
+
+/**
+ * Name of the window or session for a worktree: its directory name, without
+ * the characters tmux uses in targets
+ */
+export function getWindowName(worktreePath: string): string {
+  return path.basename(worktreePath).replace(/[.:]/g, '-');
+}
+
+/**
+ * Describe where a window lives, e.g. "tmux window myapp-auth"
+ */
+export function formatWindow(multiplexer: Multiplexer, name: string): string {
+  if (multiplexer === 'zellij') return `zellij tab ${name}`;
+  return process.env.TMUX ? `tmux window ${name}` : `tmux session ${name}`;
+}
+
+/**
+ * Check whether a window (or, outside tmux, a session) with this name exists
+ */
+export async function hasWindow(multiplexer: Multiplexer, name: string): Promise<boolean> {
+  try {
+    if (multiplexer === 'zellij') {
+      const { stdout } = await execFileAsync('zellij', ['action', 'query-tab-names']);
+      return stdout.split('\n').includes(name);
+    }
+    if (process.env.TMUX) {
+      const { stdout } = await execFileAsync('tmux', ['list-windows', '-F', '#{window_name}']);
+      return stdout.split('\n').includes(name);
+    }
+    await execFileAsync('tmux', ['has-session', '-t', `=${name}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start a command in a new window. tmux stays on the current window; zellij switches to the new tab.
+ * @returns pid of the command, or undefined if it couldn't be found out
+ */
+export async function openWindow(multiplexer: Multiplexer, options: OpenWindowOptions): Promise<number | undefined> {
+  const { name, cwd } = options;
+  // `env` hands over the tool's variables and then becomes the tool, keeping the pid
+  const command = options.env && Object.keys(options.env).length > 0
+    ? ['env', ...Object.entries(options.env).map(([key, value]) => `${key}=${value}`), options.command, ...options.args]
+    : [options.command, ...options.args];
+
+  if (multiplexer === 'zellij') {
+    // zellij doesn't report the pid, so a shell writes its own and then becomes the command
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'wt-'));
+    const pidFile = path.join(dir, 'pid');
+    try {
+      await execFileAsync('zellij', ['action', 'new-tab', '--name', name, '--cwd', cwd]);
+      await execFileAsync('zellij', [
+        'run', '--cwd', cwd, '--close-on-exit', '--',
+        'sh', '-c', 'echo $$ > "$0"; exec "$@"', pidFile, ...command
+      ]);
+      return await readPid(pidFile);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  const args = process.env.TMUX
+    ? ['new-window', '-d', '-n', name]
+    : ['new-session', '-d', '-s', name];
+  const { stdout } = await execFileAsync('tmux', [...args, '-c', cwd, '-P', '-F', '#{pane_pid}', '--', ...command]);
+  const pid = parseInt(stdout.trim(), 10);
+  return Number.isNaN(pid) ? undefined : pid;
+}
+
+async function readPid(pidFile: string): Promise<number | undefined> {
+  const deadline = Date.now() + PID_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      const pid = parseInt(await readFile(pidFile, 'utf-8'), 10);
+      if (!Number.isNaN(pid)) return pid;
+    } catch {
+      // Not written yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return undefined;
+}
+
+/**
+ * Switch to an existing window from inside the multiplexer
+ */
+export async function focusWindow(multiplexer: Multiplexer, name: string): Promise<void> {
+  if (multiplexer === 'zellij') {
+    await execFileAsync('zellij', ['action', 'go-to-tab-name', name]);
+  } else {
+    await execFileAsync('tmux', ['select-window', '-t', `:=${name}`]);
+  }
+}
+
+/**
+ * Arguments to tmux that attach the terminal to a session, for use outside tmux
+ */
+export function getAttachArgs(name: string): string[] {
+  return ['attach-session', '-t', `=${name}`];
+}
@@ -0,0 +1,135 @@
+import type { WorktreeInfo, WorktreeStatus, MergeMethod } from './git.js';
+import type { PortAssignment } from './ports.js';
+import type { InstallRecord } from './deps.js';
+import type { WorktreeMetadata } from './metadata.js';
+
+/**
+ * Version of the --json / --porcelain schema.
+ * Bump only for incompatible changes; adding fields is allowed within a version.
+ */
+export const OUTPUT_SCHEMA_VERSION = 1;
+
+export type OutputFormat = 'text' | 'json' | 'porcelain';
+
+export interface OutputOptions {
+  json?: boolean;
+  porcelain?: boolean;
+}
+
+export interface WorktreeRecord {
+  path: string;
+  branch: string | null;
+  head: string | null;
+  main: boolean;
+  detached: boolean;
+  bare: boolean;
+  /** null when not applicable (main, detached or bare worktrees) */
+  mergeStatus: 'merged' | 'unmerged' | null;
+  /** How the branch was merged: merge, rebase or squash (null unless merged) */
+  mergeMethod: MergeMethod | null;
+  /** null when not applicable (main, detached or bare worktrees) */
+  remoteStatus: 'remote' | 'local-only' | null;
+  /** null when the worktree directory is missing */
+  status: WorktreeStatus | null;
+  ports: PortAssignment[];
+  /** How dependencies were set up by wt (null if it didn't install them) */
+  install: InstallRecord | null;
+  /** Creation time, base, last launched tool and note (null if wt has no record) */
+  metadata: WorktreeMetadata | null;
+}
+
+export interface WorktreeRecordInput {
+  isMain: boolean;
+  /** null when checked and not merged; undefined when not checked */
+  mergeMethod?: MergeMethod | null;
+  existsOnRemote?: boolean;
+  status?: WorktreeStatus | null;
+  ports?: PortAssignment[];
+  install?: InstallRecord | null;
+  metadata?: WorktreeMetadata | null;
+}
+
+/**
+ * Resolve the output format from command options
+ */
+export function getOutputFormat(options: OutputOptions): OutputFormat {
+  if (options.json && options.porcelain) {
+    throw new Error('--json and --porcelain cannot be used together');
+  }
+  if (options.json) return 'json';
+  if (options.porcelain) return 'porcelain';
+  return 'text';
+}
+
+/**
+ * Build the stable record for a worktree
+ */
+export function toWorktreeRecord(wt: WorktreeInfo, input: WorktreeRecordInput): WorktreeRecord {
+  const applicable = !input.isMain && !wt.detached && !wt.bare && !!wt.branch;
+
+  return {
+    path: wt.path,
+    branch: wt.branch || null,
+    head: wt.head || null,
+    main: input.isMain,
+    detached: wt.detached,
+    bare: wt.bare,
+    mergeStatus: applicable && input.mergeMethod !== undefined ? (input.mergeMethod ? 'merged' : 'unmerged') : null,
+    mergeMethod: applicable ? input.mergeMethod ?? null : null,
+    remoteStatus: applicable && input.existsOnRemote !== undefined ? (input.existsOnRemote ? 'remote' : 'local-only') : null,
+    status: input.status ?? null,
+    ports: input.ports ?? [],
+    install: input.install ?? null,
+    metadata: input.metadata ?? null
+  };
+}
+
+/**
+ * Serialize a payload as versioned JSON
+ */
+export function formatJson(command: string, payload: Record<string, unknown>): string {
+  return JSON.stringify({ version: OUTPUT_SCHEMA_VERSION, command, ...payload }, null, 2);
+}
+
+/**
+ * Serialize records in a line-based format, one "key value" pair per line and a
+ * blank line after each record (like `git worktree list --porcelain`).
+ * Boolean flags are printed as a bare key when true and omitted otherwise.
+ */
+export function formatPorcelain(records: object[]): string {
+  const lines = [`version ${OUTPUT_SCHEMA_VERSION}`, ''];
+
+  for (const record of records) {
+    // "path" always comes first so each record starts with a "worktree" line
+    const { path, ...rest } = record as Record<string, unknown>;
+    lines.push(`worktree ${path}`);
+
+    for (const [key, value] of Object.entries(rest)) {
+      lines.push(...formatPorcelainField(key, value));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function formatPorcelainField(key: string, value: unknown): string[] {
+  if (value === null || value === undefined || value === false) return [];
+  if (value === true) return [key];
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => formatPorcelainField(key, item));
+  }
+
+  if (typeof value === 'object') {
+    // Port assignments and nested fields are flattened: "port PORT 3010 .env", "status.modified 2"
+    if (key === 'ports') {
+      const { key: envKey, port, file } = value as PortAssignment;
+      return [`port ${envKey} ${port} ${file}`];
+    }
+    return Object.entries(value as Record<string, unknown>)
+      .flatMap(([subKey, subValue]) => formatPorcelainField(`${key}.${subKey}`, subValue));
+  }
+
+  return [`${key} ${String(value).replace(/\n/g, ' ')}`];
+}
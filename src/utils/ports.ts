@@ -0,0 +1,202 @@
+import { readFile, writeFile, realpath } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { readState, updateState } from './state.js';
+
+export interface PortsConfig {
+  /** Env keys whose port (plain number or URL port segment) is rewritten */
+  keys: string[];
+  /** Distance between the ports of consecutive worktrees (default 10) */
+  step?: number;
+}
+
+export interface PortAssignment {
+  file: string;
+  key: string;
+  port: number;
+}
+
+export interface PortAllocation {
+  offset: number;
+  ports: PortAssignment[];
+}
+
+interface PortRegistry {
+  worktrees: Record<string, PortAllocation>;
+}
+
+const STATE_NAME = 'ports';
+const DEFAULT_STEP = 10;
+const MAX_PORT = 65535;
+
+/**
+ * Check whether a file name looks like an env file (.env, .env.local, ...)
+ */
+export function isEnvFile(file: string): boolean {
+  const base = path.basename(file);
+  return base === '.env' || base.startsWith('.env.');
+}
+
+/**
+ * Add an offset to the port in an env value.
+ * Handles plain numbers ("3000"), URLs ("postgres://u@localhost:5432/db") and host:port pairs.
+ * Returns null if the value has no recognizable port.
+ */
+export function shiftPortValue(value: string, offset: number): { value: string; port: number } | null {
+  const shift = (port: string) => {
+    const shifted = parseInt(port, 10) + offset;
+    return shifted > 0 && shifted <= MAX_PORT ? shifted : null;
+  };
+
+  if (/^\d{1,5}$/.test(value)) {
+    const port = shift(value);
+    return port === null ? null : { value: String(port), port };
+  }
+
+  // Port right after the host of a URL (scheme://[user@]host:port) or a bare host:port
+  const match = value.match(/^([a-z][a-z0-9+.-]*:\/\/(?:[^/@\s]*@)?[^/:\s]+:|[^/:\s]+:)(\d{1,5})(?=[/?#]|$)/i);
+  if (!match) return null;
+
+  const port = shift(match[2]);
+  if (port === null) return null;
+
+  return { value: match[1] + port + value.slice(match[0].length), port };
+}
+
+/**
+ * Rewrite the configured keys in env file content, shifting each port by the offset
+ */
+export function rewriteEnvPorts(
+  content: string,
+  keys: string[],
+  offset: number
+): { content: string; ports: { key: string; port: number }[] } {
+  const ports: { key: string; port: number }[] = [];
+
+  const lines = content.split('\n').map(line => {
+    const match = line.match(/^(\s*(?:export\s+)?)([A-Za-z_][A-Za-z0-9_]*)(\s*=\s*)(["']?)(.*?)\4(\s*(?:#.*)?)$/);
+    if (!match || !keys.includes(match[2])) return line;
+
+    const [, prefix, key, equals, quote, value, suffix] = match;
+    const shifted = shiftPortValue(value, offset);
+    if (!shifted) return line;
+
+    ports.push({ key, port: shifted.port });
+    return `${prefix}${key}${equals}${quote}${shifted.value}${quote}${suffix}`;
+  });
+
+  return { content: lines.join('\n'), ports };
+}
+
+/**
+ * Collect the ports env files would get at a given offset, without writing anything
+ */
+function previewPorts(contents: Map<string, string>, keys: string[], offset: number): PortAssignment[] {
+  const ports: PortAssignment[] = [];
+  for (const [file, content] of contents) {
+    for (const { key, port } of rewriteEnvPorts(content, keys, offset).ports) {
+      ports.push({ file, key, port });
+    }
+  }
+  return ports;
+}
+
+/**
+ * Allocate a unique port offset for a worktree and rewrite the configured keys in its env files.
+ * The smallest offset whose ports collide with no other worktree (or the main checkout) wins.
+ * Returns null if no configured key was found in the given files.
+ */
+export async function allocatePorts(
+  worktreePath: string,
+  files: string[],
+  config: PortsConfig
+): Promise<PortAllocation | null> {
+  const step = config.step && config.step > 0 ? config.step : DEFAULT_STEP;
+  const envFiles = files.filter(isEnvFile);
+
+  const contents = new Map<string, string>();
+  for (const file of envFiles) {
+    contents.set(file, await readFile(path.join(worktreePath, file), 'utf-8'));
+  }
+
+  // Ports at offset 0 are the main checkout's own ports
+  const basePorts = previewPorts(contents, config.keys, 0);
+  if (basePorts.length === 0) return null;
+
+  const highestBase = Math.max(...basePorts.map(p => p.port));
+  // Key by the real path, as reported by `git worktree list`
+  const worktreeKey = await realpath(worktreePath);
+
+  const registry = await updateState<PortRegistry>(STATE_NAME, { worktrees: {} }, registry => {
+    // Forget worktrees that were removed without wt
+    for (const wtPath of Object.keys(registry.worktrees)) {
+      if (!existsSync(wtPath)) delete registry.worktrees[wtPath];
+    }
+    delete registry.worktrees[worktreeKey];
+
+    const taken = new Set(basePorts.map(p => p.port));
+    const takenOffsets = new Set<number>();
+    for (const other of Object.values(registry.worktrees)) {
+      takenOffsets.add(other.offset);
+      for (const { port } of other.ports) taken.add(port);
+    }
+
+    for (let offset = step; highestBase + offset <= MAX_PORT; offset += step) {
+      if (takenOffsets.has(offset)) continue;
+      const ports = previewPorts(contents, config.keys, offset);
+      if (ports.some(p => taken.has(p.port))) continue;
+      registry.worktrees[worktreeKey] = { offset, ports };
+      break;
+    }
+  });
+
+  const allocation = registry.worktrees[worktreeKey];
+  if (!allocation) {
+    throw new Error('No free port offset available');
+  }
+
+  for (const [file, content] of contents) {
+    const rewritten = rewriteEnvPorts(content, config.keys, allocation.offset);
+    if (rewritten.ports.length > 0) {
+      await writeFile(path.join(worktreePath, file), rewritten.content);
+    }
+  }
+
+  return allocation;
+}
+
+/**
+ * Free the ports allocated to a worktree
+ */
+export async function releasePorts(worktreePath: string): Promise<PortAllocation | undefined> {
+  let released: PortAllocation | undefined;
+  await updateState<PortRegistry>(STATE_NAME, { worktrees: {} }, registry => {
+    released = registry.worktrees[worktreePath];
+    delete registry.worktrees[worktreePath];
+  });
+
+  return released;
+}
+
+/**
+ * Get the port allocations of all worktrees, keyed by worktree path
+ */
+export async function getPortAllocations(): Promise<Record<string, PortAllocation>> {
+  const registry = await readState<PortRegistry>(STATE_NAME, { worktrees: {} });
+  return registry.worktrees;
+}
+
+/**
+ * Format the ports of an allocation for display, e.g. "PORT=3010 VITE_PORT=5183"
+ */
+export function formatPorts(allocation: PortAllocation): string {
+  const seen = new Set<string>();
+  const parts: string[] = [];
+  for (const { key, port } of allocation.ports) {
+    const part = `${key}=${port}`;
+    if (seen.has(part)) continue;
+    seen.add(part);
+    parts.push(part);
+  }
+  return parts.join(' ');
+}
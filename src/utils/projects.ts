@@ -0,0 +1,161 @@
+import { spawn, execFile, StdioOptions } from 'child_process';
+import { promisify } from 'util';
+import { readdir } from 'fs/promises';
+import path from 'path';
+import type { WtConfig } from './config.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface ProjectDetector {
+  id: string;
+  /**
+   * Detectors sharing a group are alternatives for one directory (e.g. npm and
+   * yarn both install node_modules): only the first match runs.
+   */
+  group: string;
+  /** Files marking a project in any directory, most specific first */
+  files: string[];
+  /**
+   * Files marking a project only at the repository root, e.g. a package.json
+   * without a lockfile, which in a subdirectory is usually a workspace member
+   */
+  rootFiles?: string[];
+  /** Command run in the project directory */
+  command: string[];
+}
+
+/** Config entries may override any field of a built-in detector, define a new one, or disable one with false */
+export type DetectorConfig = Partial<Omit<ProjectDetector, 'id'>> | false;
+
+/** A command needed to bootstrap one project of a worktree */
+export interface BootstrapStep {
+  detector: string;
+  group: string;
+  /** Project directory relative to the worktree ('.' for the root) */
+  dir: string;
+  /** Marker file that matched */
+  file: string;
+  command: string[];
+}
+
+export const BUILTIN_DETECTORS: ProjectDetector[] = [
+  { id: 'bun', group: 'node', files: ['bun.lock', 'bun.lockb'], command: ['bun', 'install'] },
+  { id: 'pnpm', group: 'node', files: ['pnpm-lock.yaml'], command: ['pnpm', 'install'] },
+  { id: 'yarn', group: 'node', files: ['yarn.lock'], command: ['yarn', 'install'] },
+  { id: 'npm', group: 'node', files: ['package-lock.json'], rootFiles: ['package.json'], command: ['npm', 'install'] },
+  { id: 'uv', group: 'python', files: ['uv.lock'], command: ['uv', 'sync'] },
+  { id: 'poetry', group: 'python', files: ['poetry.lock'], command: ['poetry', 'install'] },
+  { id: 'pip', group: 'python', files: ['requirements.txt'], command: ['pip', 'install', '-r', 'requirements.txt'] },
+  { id: 'cargo', group: 'rust', files: ['Cargo.lock'], rootFiles: ['Cargo.toml'], command: ['cargo', 'fetch'] },
+  { id: 'go', group: 'go', files: ['go.mod'], command: ['go', 'mod', 'download'] },
+  { id: 'bundler', group: 'ruby', files: ['Gemfile.lock', 'Gemfile'], command: ['bundle', 'install'] },
+  { id: 'composer', group: 'php', files: ['composer.lock', 'composer.json'], command: ['composer', 'install'] }
+];
+
+/**
+ * Get all project detectors: built-ins merged with detectors from config
+ */
+export function getDetectors(config: Pick<WtConfig, 'detectors'>): ProjectDetector[] {
+  const detectors = new Map<string, ProjectDetector>(BUILTIN_DETECTORS.map(d => [d.id, { ...d }]));
+
+  for (const [id, override] of Object.entries(config.detectors ?? {})) {
+    if (override === false) {
+      detectors.delete(id);
+      continue;
+    }
+
+    const merged = { ...detectors.get(id), ...override, id } as ProjectDetector;
+    if (!merged.command?.length || !(merged.files?.length || merged.rootFiles?.length)) {
+      throw new Error(`Detector "${id}" in config needs a command and files`);
+    }
+
+    detectors.set(id, { ...merged, files: merged.files ?? [], group: merged.group || id });
+  }
+
+  return [...detectors.values()];
+}
+
+/**
+ * Find the bootstrap steps of every project in a checkout, root first.
+ * Subdirectories are found through the tracked files, so ignored and untracked
+ * directories (like node_modules) are never searched.
+ */
+export async function detectProjects(dir: string, detectors: ProjectDetector[]): Promise<BootstrapStep[]> {
+  const filesByDir = new Map<string, Set<string>>();
+  for (const file of await listFiles(dir)) {
+    const fileDir = path.dirname(file);
+    if (!filesByDir.has(fileDir)) filesByDir.set(fileDir, new Set());
+    filesByDir.get(fileDir)!.add(path.basename(file));
+  }
+
+  const dirs = [...filesByDir.keys()].sort((a, b) => (a === '.' ? -1 : b === '.' ? 1 : a.localeCompare(b)));
+  const steps: BootstrapStep[] = [];
+
+  for (const projectDir of dirs) {
+    const names = filesByDir.get(projectDir)!;
+    const matchedGroups = new Set<string>();
+
+    for (const detector of detectors) {
+      if (matchedGroups.has(detector.group)) continue;
+
+      const markers = projectDir === '.' ? [...detector.files, ...(detector.rootFiles ?? [])] : detector.files;
+      const file = markers.find(marker => names.has(marker));
+      if (file) {
+        matchedGroups.add(detector.group);
+        steps.push({ detector: detector.id, group: detector.group, dir: projectDir, file, command: detector.command });
+      }
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * List files relative to a checkout: tracked files, or the top-level entries outside git
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    const { stdout } = await execFileAsync('git', ['ls-files'], { cwd: dir, maxBuffer: 64 * 1024 * 1024 });
+    return stdout.split('\n').filter(Boolean);
+  } catch {
+    return readdir(dir);
+  }
+}
+
+/**
+ * Format a step for display, e.g. "uv sync in services/api"
+ */
+export function formatStep(step: BootstrapStep): string {
+  const command = step.command.join(' ');
+  return step.dir === '.' ? command : `${command} in ${step.dir}`;
+}
+
+/**
+ * Run a bootstrap step in its project directory
+ */
+export function runStep(
+  worktreePath: string,
+  step: BootstrapStep,
+  stdio: StdioOptions = 'inherit'
+): Promise<void> {
+  const [command, ...args] = step.command;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: path.join(worktreePath, step.dir),
+      stdio,
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`exited with code ${code}`));
+      }
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT' ? new Error(`${command} is not installed or not in PATH`) : error);
+    });
+  });
+}
@@ -0,0 +1,34 @@
+import { readFile } from 'fs/promises';
+
+export interface PromptOptions {
+  prompt?: string;
+  promptFile?: string;
+}
+
+/**
+ * Read the task given with --prompt or --prompt-file.
+ * Returns undefined when neither was given or the task is blank.
+ */
+export async function readPrompt(options: PromptOptions): Promise<string | undefined> {
+  if (options.prompt !== undefined && options.promptFile !== undefined) {
+    throw new Error('--prompt and --prompt-file cannot be used together');
+  }
+
+  let prompt = options.prompt;
+  if (options.promptFile !== undefined) {
+    try {
+      prompt = await readFile(options.promptFile, 'utf-8');
+    } catch (error: any) {
+      throw new Error(`Could not read ${options.promptFile}: ${error.message}`);
+    }
+  }
+
+  return prompt?.trim() || undefined;
+}
+
+/**
+ * First line of a prompt, used as the worktree's note
+ */
+export function summarizePrompt(prompt: string): string {
+  return prompt.trim().split('\n')[0].trim();
+}
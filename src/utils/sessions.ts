@@ -0,0 +1,164 @@
+import { execFile, ChildProcess } from 'child_process';
+import { promisify } from 'util';
+import { realpath } from 'fs/promises';
+import path from 'path';
+import { readState, updateState } from './state.js';
+import type { ToolDefinition } from './tools.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface AgentSession {
+  pid: number;
+  /** Real path of the worktree the tool runs in */
+  worktreePath: string;
+  /** Id of the AI tool */
+  tool: string;
+  /** Command the tool was started with, checked so a reused pid isn't mistaken for it */
+  command: string;
+  /** ISO timestamp */
+  startedAt: string;
+  /** Output of a background session (see `wt spawn`) */
+  logFile?: string;
+}
+
+interface SessionRegistry {
+  sessions: AgentSession[];
+}
+
+const STATE_NAME = 'sessions';
+
+/** Time a terminated session gets to exit before it is killed */
+const STOP_TIMEOUT_MS = 5000;
+
+/**
+ * Record a launched AI tool, given its process or pid. A child process is
+ * forgotten again once it exits; sessions that outlive wt are pruned when
+ * their process is found gone.
+ */
+export async function recordSession(
+  worktreePath: string,
+  tool: ToolDefinition,
+  target: ChildProcess | number | undefined,
+  logFile?: string
+): Promise<AgentSession | null> {
+  const pid = typeof target === 'object' ? target.pid : target;
+  // The tool failed to start (e.g. its command is missing), or its pid is unknown
+  if (pid === undefined) return null;
+
+  const session: AgentSession = {
+    pid,
+    worktreePath: await realpath(worktreePath),
+    tool: tool.id,
+    command: tool.command,
+    startedAt: new Date().toISOString(),
+    logFile
+  };
+
+  await updateState<SessionRegistry>(STATE_NAME, { sessions: [] }, registry => {
+    registry.sessions = registry.sessions.filter(s => s.pid !== pid);
+    registry.sessions.push(session);
+  });
+  if (typeof target === 'object') {
+    target.once('exit', () => {
+      forgetSession(pid).catch(() => {});
+    });
+  }
+
+  return session;
+}
+
+/**
+ * Get the sessions whose process is still running, pruning the rest
+ */
+export async function getActiveSessions(): Promise<AgentSession[]> {
+  const registry = await readState<SessionRegistry>(STATE_NAME, { sessions: [] });
+  const running = await Promise.all(registry.sessions.map(isSessionRunning));
+  const active = registry.sessions.filter((_, i) => running[i]);
+
+  if (active.length !== registry.sessions.length) {
+    // Sessions recorded while the processes were checked are kept
+    const ended = new Set(registry.sessions.filter((_, i) => !running[i]).map(s => s.pid));
+    await updateState<SessionRegistry>(STATE_NAME, { sessions: [] }, current => {
+      current.sessions = current.sessions.filter(s => !ended.has(s.pid));
+    });
+  }
+  return active;
+}
+
+/**
+ * Get the running sessions of one worktree
+ */
+export async function getWorktreeSessions(worktreePath: string): Promise<AgentSession[]> {
+  const sessions = await getActiveSessions();
+  return sessions.filter(s => s.worktreePath === worktreePath);
+}
+
+/**
+ * Terminate a session, killing it if it hasn't exited after a few seconds.
+ * Background sessions lead their own process group, so the tool's children stop too.
+ * @returns true if the process was killed rather than exiting on its own
+ */
+export async function stopSession(session: AgentSession): Promise<boolean> {
+  const target = session.logFile ? -session.pid : session.pid;
+  let killed = false;
+
+  if (signal(target, 'SIGTERM')) {
+    const deadline = Date.now() + STOP_TIMEOUT_MS;
+    while (isRunning(session.pid) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    if (isRunning(session.pid)) {
+      killed = signal(target, 'SIGKILL');
+    }
+  }
+
+  await forgetSession(session.pid);
+  return killed;
+}
+
+/**
+ * Format a session for messages, e.g. "claude (pid 4242)"
+ */
+export function formatSession(session: AgentSession): string {
+  return `${session.tool} (pid ${session.pid})`;
+}
+
+async function forgetSession(pid: number): Promise<void> {
+  await updateState<SessionRegistry>(STATE_NAME, { sessions: [] }, registry => {
+    registry.sessions = registry.sessions.filter(s => s.pid !== pid);
+  });
+}
+
+/**
+ * Check that a session's process is alive and still runs the tool's command
+ */
+async function isSessionRunning(session: AgentSession): Promise<boolean> {
+  if (!isRunning(session.pid)) return false;
+
+  try {
+    const { stdout } = await execFileAsync('ps', ['-p', String(session.pid), '-o', 'command=']);
+    return stdout.includes(path.basename(session.command));
+  } catch (error: any) {
+    // ps exits 1 when the process is gone; without ps, trust the pid
+    return error.code === 'ENOENT';
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to someone else
+    return error.code === 'EPERM';
+  }
+}
+
+function signal(target: number, name: NodeJS.Signals): boolean {
+  try {
+    process.kill(target, name);
+    return true;
+  } catch {
+    return false;
+  }
+}
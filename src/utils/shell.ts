@@ -0,0 +1,63 @@
+import { writeFile } from 'fs/promises';
+
+export type Shell = 'bash' | 'zsh' | 'fish';
+
+export const SHELLS: Shell[] = ['bash', 'zsh', 'fish'];
+
+/** Set by the shell wrapper to a temp file that receives the directory to cd into */
+export const CD_FILE_ENV = 'WT_CD_FILE';
+
+const POSIX_INIT = `# wt shell integration: lets wt change the directory of this shell
+wt() {
+  local wt_cd_file wt_status
+  wt_cd_file="$(mktemp "\${TMPDIR:-/tmp}/wt-cd.XXXXXX")" || return
+  WT_CD_FILE="$wt_cd_file" command wt "$@"
+  wt_status=$?
+  if [ -s "$wt_cd_file" ]; then
+    cd -- "$(cat "$wt_cd_file")" || wt_status=$?
+  fi
+  rm -f -- "$wt_cd_file"
+  return $wt_status
+}
+`;
+
+const FISH_INIT = `# wt shell integration: lets wt change the directory of this shell
+function wt --wraps wt --description 'Git worktrees with AI coding assistants'
+    set -l wt_tmpdir /tmp
+    set -q TMPDIR; and set wt_tmpdir $TMPDIR
+    set -l wt_cd_file (mktemp "$wt_tmpdir/wt-cd.XXXXXX"); or return
+    env WT_CD_FILE=$wt_cd_file wt $argv
+    set -l wt_status $status
+    if test -s $wt_cd_file
+        cd (cat $wt_cd_file); or set wt_status $status
+    end
+    rm -f -- $wt_cd_file
+    return $wt_status
+end
+`;
+
+/**
+ * Check if a string is a supported shell
+ */
+export function isShell(value: string): value is Shell {
+  return (SHELLS as string[]).includes(value);
+}
+
+/**
+ * Get the wrapper function to eval in a shell's startup file
+ */
+export function getShellInit(shell: Shell): string {
+  return shell === 'fish' ? FISH_INIT : POSIX_INIT;
+}
+
+/**
+ * Hand a directory back to the parent shell through the wrapper's temp file.
+ * Returns false when wt isn't running under the shell integration.
+ */
+export async function requestCd(dir: string): Promise<boolean> {
+  const file = process.env[CD_FILE_ENV];
+  if (!file) return false;
+
+  await writeFile(file, dir);
+  return true;
+}
@@ -0,0 +1,96 @@
+import { readFile, writeFile, mkdir, rename, open, stat, unlink } from 'fs/promises';
+import path from 'path';
+import { getGitCommonDir } from './git.js';
+
+/** A lock older than this was left behind by a wt that crashed, and is taken over */
+const STALE_LOCK_MS = 10000;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Get the directory where wt keeps per-repository state.
+ * It lives in the git common dir so every worktree of the repo shares it.
+ */
+export async function getStateDir(): Promise<string> {
+  return path.join(await getGitCommonDir(), 'wt');
+}
+
+/**
+ * Read a JSON state file (returns the fallback if it doesn't exist or is unreadable)
+ */
+export async function readState<T>(name: string, fallback: T): Promise<T> {
+  const filePath = path.join(await getStateDir(), `${name}.json`);
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON state file atomically
+ */
+export async function writeState<T>(name: string, data: T): Promise<void> {
+  const dir = await getStateDir();
+  const filePath = path.join(dir, `${name}.json`);
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(tmpPath, JSON.stringify(data, null, 2) + '\n');
+  await rename(tmpPath, filePath);
+}
+
+/**
+ * Read, modify and write back a JSON state file. A lock file keeps concurrent
+ * wt processes from updating it from the same read.
+ */
+export async function updateState<T>(name: string, fallback: T, update: (data: T) => T | void): Promise<T> {
+  return withLock(name, async () => {
+    const data = await readState(name, fallback);
+    const updated = update(data) ?? data;
+    await writeState(name, updated);
+    return updated;
+  });
+}
+
+async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const dir = await getStateDir();
+  const lockPath = path.join(dir, `${name}.json.lock`);
+  await mkdir(dir, { recursive: true });
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.close();
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+
+    try {
+      const { mtimeMs } = await stat(lockPath);
+      if (Date.now() - mtimeMs > STALE_LOCK_MS) {
+        await unlink(lockPath);
+        continue;
+      }
+    } catch {
+      // Released in the meantime
+      continue;
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => {});
+  }
+}
+
+/**
+ * Get the path of a log file in the state directory, creating the logs directory
+ */
+export async function getLogFile(name: string): Promise<string> {
+  const dir = path.join(await getStateDir(), 'logs');
+  await mkdir(dir, { recursive: true });
+  return path.join(dir, `${name}.log`);
+}
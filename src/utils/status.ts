@@ -0,0 +1,158 @@
+import {
+  getDefaultBranch,
+  getBaseRef,
+  getMergeMethod,
+  getPatchMergeMethod,
+  refExists,
+  getWorktreeStatus,
+  listMergedBranches,
+  listRemoteBranches,
+  WorktreeInfo,
+  WorktreeStatus,
+  MergeMethod
+} from './git.js';
+import { getRemotes, Remotes, WtConfig } from './config.js';
+import { mapConcurrent } from './pool.js';
+import { getAllMetadata, WorktreeMetadata } from './metadata.js';
+
+/** Worktrees evaluated at once; each evaluation runs a few git processes */
+const STATUS_CONCURRENCY = 8;
+
+/**
+ * Repository-wide facts every worktree is compared against, collected once per run
+ */
+export interface StatusContext {
+  mainRepoPath: string;
+  remotes: Remotes;
+  /** Default branch name, e.g. "main" */
+  baseBranch: string;
+  /** Ref merges are checked against, e.g. "origin/main" */
+  baseRef: string;
+  /** Branches on the push remote */
+  remoteBranches: Set<string>;
+  /** Local branches whose tips are reachable from the base ref */
+  mergedBranches: Set<string>;
+  /** Recorded metadata, keyed by worktree path */
+  metadata: Record<string, WorktreeMetadata>;
+}
+
+export interface WorktreeEvaluation {
+  worktree: WorktreeInfo;
+  isMain: boolean;
+  /** Ref the branch was compared against: its recorded base, else the default branch */
+  baseRef: string;
+  /** null when not merged; undefined when not applicable (main, detached or bare worktrees) */
+  mergeMethod?: MergeMethod | null;
+  /** undefined when not applicable */
+  existsOnRemote?: boolean;
+  /** null when the worktree directory is missing (or bare) */
+  status: WorktreeStatus | null;
+  metadata: WorktreeMetadata | null;
+}
+
+export interface EvaluateOptions {
+  /** Called as each worktree finishes, in completion order */
+  onResult?: (evaluation: WorktreeEvaluation, index: number) => void;
+}
+
+/**
+ * Collect the remote refs, merged branches and default branch shared by all worktrees
+ * @param remoteOverride - Remote given on the command line, overriding the configured ones
+ */
+export async function createStatusContext(
+  mainRepoPath: string,
+  config: WtConfig,
+  remoteOverride?: string
+): Promise<StatusContext> {
+  const remotes = getRemotes(config, remoteOverride);
+  const baseBranch = config.defaultBranch || await getDefaultBranch(remotes.base);
+  const baseRef = await getBaseRef(baseBranch, remotes.base);
+
+  const [remoteBranches, mergedBranches, metadata] = await Promise.all([
+    listRemoteBranches(remotes.push).catch(() => []),
+    listMergedBranches(baseRef).catch(() => []),
+    getAllMetadata()
+  ]);
+
+  return {
+    mainRepoPath,
+    remotes,
+    baseBranch,
+    baseRef,
+    remoteBranches: new Set(remoteBranches),
+    mergedBranches: new Set(mergedBranches),
+    metadata
+  };
+}
+
+/**
+ * Evaluate one worktree against the shared context
+ */
+export async function evaluateWorktree(context: StatusContext, wt: WorktreeInfo): Promise<WorktreeEvaluation> {
+  const isMain = wt.path === context.mainRepoPath;
+  const checkBranch = !isMain && !wt.detached && !wt.bare && !!wt.branch;
+  const metadata = context.metadata[wt.path] ?? null;
+  const recordedBase = checkBranch ? await resolveRecordedBase(context, metadata) : undefined;
+  const baseRef = recordedBase ?? context.baseRef;
+
+  // Fast-forward and merge-commit merges into the default branch come from the shared set;
+  // only the rest (and branches with another recorded base) need their own checks
+  let mergeCheck: Promise<MergeMethod | null> | undefined;
+  if (checkBranch) {
+    if (recordedBase) {
+      mergeCheck = getMergeMethod(wt.branch, recordedBase);
+    } else if (context.mergedBranches.has(wt.branch)) {
+      mergeCheck = Promise.resolve('merge');
+    } else {
+      mergeCheck = getPatchMergeMethod(wt.branch, context.baseRef);
+    }
+  }
+
+  const [mergeMethod, status] = await Promise.all([
+    mergeCheck,
+    wt.bare ? null : getWorktreeStatus(wt.path, isMain ? undefined : baseRef).catch(() => null)
+  ]);
+
+  return {
+    worktree: wt,
+    isMain,
+    baseRef,
+    mergeMethod,
+    existsOnRemote: checkBranch ? context.remoteBranches.has(wt.branch) : undefined,
+    status,
+    metadata
+  };
+}
+
+/**
+ * Get the ref of a worktree's recorded base branch when it differs from the
+ * default branch and still exists. Tags and commits aren't merge targets, so
+ * they (like unknown bases) fall back to the default branch.
+ */
+async function resolveRecordedBase(context: StatusContext, metadata: WorktreeMetadata | null): Promise<string | undefined> {
+  const base = metadata?.baseBranch;
+  if (!base || base === context.baseBranch || base === context.baseRef) return undefined;
+
+  let ref: string | undefined;
+  if (await refExists(`refs/heads/${base}`)) {
+    ref = await getBaseRef(base, context.remotes.base);
+  } else if (await refExists(`refs/remotes/${base}`)) {
+    ref = base;
+  }
+  return ref === context.baseRef ? undefined : ref;
+}
+
+/**
+ * Evaluate worktrees concurrently with a bounded pool. Results keep the order of the worktrees.
+ */
+export async function evaluateWorktrees(
+  context: StatusContext,
+  worktrees: WorktreeInfo[],
+  options: EvaluateOptions = {}
+): Promise<WorktreeEvaluation[]> {
+  return mapConcurrent(worktrees, STATUS_CONCURRENCY, async (wt, index) => {
+    const evaluation = await evaluateWorktree(context, wt);
+    options.onResult?.(evaluation, index);
+    return evaluation;
+  });
+}
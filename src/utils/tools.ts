@@ -0,0 +1,109 @@
+import type { WtConfig } from './config.js';
+
+export interface ToolDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  /** Executable to run (resolved through PATH) */
+  command: string;
+  /** Arguments always passed to the command */
+  args?: string[];
+  /**
+   * Arguments that start an interactive session with an initial prompt, where
+   * {prompt} is replaced by it (e.g. ["--prompt", "{prompt}"]). Defaults to the
+   * prompt as the last argument; null for tools that can't take one.
+   */
+  promptArgs?: string[] | null;
+  /** Arguments that run the tool without a terminal, placed before the prompt (e.g. claude's -p) */
+  headlessArgs?: string[];
+  /** Extra environment variables for the tool process */
+  env?: Record<string, string>;
+  /** Command that exits 0 when the tool is available (defaults to `which <command>`) */
+  check?: string[];
+  /** Key that launches the tool in the TUI */
+  key?: string;
+}
+
+/** Config entries may override any field of a built-in tool or define a new one */
+export type ToolConfig = Partial<Omit<ToolDefinition, 'id'>>;
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  {
+    id: 'claude',
+    name: 'Claude Code',
+    description: 'Anthropic\'s Claude coding assistant',
+    command: 'claude',
+    headlessArgs: ['-p'],
+    key: 'c'
+  },
+  {
+    id: 'codex',
+    name: 'Codex',
+    description: 'OpenAI\'s Codex coding assistant',
+    command: 'codex',
+    headlessArgs: ['exec'],
+    key: 'x'
+  },
+  {
+    id: 'aider',
+    name: 'Aider',
+    description: 'AI pair programming in your terminal',
+    command: 'aider',
+    // Positional arguments are files to edit, and --message exits after one reply
+    promptArgs: null,
+    headlessArgs: ['--yes-always', '--message'],
+    key: 'a'
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini CLI',
+    description: 'Google\'s Gemini coding assistant',
+    command: 'gemini',
+    promptArgs: ['--prompt-interactive', '{prompt}'],
+    headlessArgs: ['-p'],
+    key: 'm'
+  },
+  {
+    id: 'opencode',
+    name: 'OpenCode',
+    description: 'Open source terminal coding agent',
+    command: 'opencode',
+    promptArgs: ['--prompt', '{prompt}'],
+    headlessArgs: ['run'],
+    key: 'o'
+  }
+];
+
+/**
+ * Get all tool definitions: built-ins merged with tools from config
+ */
+export function getTools(config: Pick<WtConfig, 'tools'>): ToolDefinition[] {
+  const tools = new Map<string, ToolDefinition>(BUILTIN_TOOLS.map(t => [t.id, { ...t }]));
+
+  for (const [id, override] of Object.entries(config.tools ?? {})) {
+    const existing = tools.get(id);
+    const merged = { ...existing, ...override, id } as ToolDefinition;
+
+    if (!merged.command) {
+      throw new Error(`Tool "${id}" in config has no command`);
+    }
+
+    tools.set(id, { ...merged, name: merged.name || id });
+  }
+
+  return [...tools.values()];
+}
+
+/**
+ * Find a tool definition by id
+ */
+export function getTool(config: Pick<WtConfig, 'tools'>, id: string): ToolDefinition | undefined {
+  return getTools(config).find(t => t.id === id);
+}
+
+/**
+ * Whether a tool can start an interactive session with an initial prompt
+ */
+export function acceptsPrompt(tool: ToolDefinition): boolean {
+  return tool.promptArgs !== null;
+}
@@ -0,0 +1,61 @@
+import { watch, FSWatcher } from 'fs';
+import { readdir } from 'fs/promises';
+import path from 'path';
+
+/** Files git rewrites while merely reading status; reacting to them would refresh forever */
+const IGNORED_FILES = /^index$|\.lock$/;
+
+/**
+ * Watch a repository for changes made outside wt: worktrees added or removed,
+ * branches moving, and files changing at the top of each worktree.
+ * Watches are not recursive (Linux doesn't support that before Node 20),
+ * so deep edits show up once they are committed.
+ * @returns a function that stops watching
+ */
+export async function watchRepository(
+  commonDir: string,
+  worktreePaths: string[],
+  onChange: () => void
+): Promise<() => void> {
+  const gitDirs = [commonDir, ...await listDirs(path.join(commonDir, 'worktrees'), false)];
+  const refDirs = await listDirs(path.join(commonDir, 'refs'), true);
+  const watchers: FSWatcher[] = [];
+
+  for (const dir of [...gitDirs, ...refDirs, ...worktreePaths]) {
+    try {
+      const watcher = watch(dir, (_event, filename) => {
+        if (filename && IGNORED_FILES.test(filename.toString())) return;
+        onChange();
+      });
+      // A watched directory that disappears is picked up by the next refresh
+      watcher.on('error', () => {});
+      watchers.push(watcher);
+    } catch {
+      // Gone already, or out of watches; the rest still work
+    }
+  }
+
+  return () => {
+    for (const watcher of watchers) watcher.close();
+  };
+}
+
+/**
+ * A directory and its subdirectories (all levels, or just the first)
+ */
+async function listDirs(dir: string, recursive: boolean): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const dirs = [dir];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const child = path.join(dir, entry.name);
+    dirs.push(...(recursive ? await listDirs(child, true) : [child]));
+  }
+  return dirs;
+}